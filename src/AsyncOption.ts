@@ -0,0 +1,106 @@
+import { Option, None } from "./Option";
+import { AsyncResult } from "./AsyncResult";
+import { Err, Ok } from "./Result";
+import { type ValueOrFn, BAKUtilsGetFnValue } from "./Utils";
+
+/** An `Option` that may still be pending, or a plain `Option`. */
+export type OptionLike<T> = Option<T> | PromiseLike<Option<T>>;
+
+/**
+ * Chainable wrapper over a `Promise<Option<T>>`.
+ *
+ * Awaiting it gives back the plain `Option<T>`.
+ *
+ * @template T - The type of the possible value.
+ *
+ * @example
+ * ```typescript
+ * const name = await AsyncOption.fromPromise(findUser(id))
+ *     .map(user => user.name)
+ *     .unwrapOr('anonymous');
+ * ```
+ */
+export class AsyncOption<T> implements PromiseLike<Option<T>> {
+    /** The underlying promise, which never rejects while built through the static factories. */
+    private readonly promise: Promise<Option<T>>;
+
+    /**
+     * Creates an instance of AsyncOption.
+     *
+     * @param option - An `Option` or a promise-like of an `Option`.
+     */
+    constructor(option: OptionLike<T>) {
+        this.promise = Promise.resolve(option);
+    }
+
+    /** Wraps an existing `Option`, or a pending one such as the return of `Option.flatMapAsync`. */
+    static from<T>(option: OptionLike<T>): AsyncOption<T> {
+        return new AsyncOption(option);
+    }
+
+    /**
+     * Converts any promise-like into an `AsyncOption`.
+     *
+     * A `null`/`undefined` value or a rejection becomes `None`.
+     */
+    static fromPromise<T>(promise: PromiseLike<T | null | undefined>): AsyncOption<T> {
+        return new AsyncOption(Promise.resolve(promise).then(v => Option<T>(v), () => None as Option<T>));
+    }
+
+    then<R1 = Option<T>, R2 = never>(
+        onfulfilled?: ((value: Option<T>) => R1 | PromiseLike<R1>) | null,
+        onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null
+    ): Promise<R1 | R2> {
+        return this.promise.then(onfulfilled, onrejected);
+    }
+
+    /** Transforms the value with a sync or async function. A `null`/`undefined` result, a throw or a rejection becomes `None`. */
+    map<U>(fn: (value: T) => U | PromiseLike<U>): AsyncOption<Awaited<U>> {
+        return AsyncOption.fromPromise(this.promise.then(o => o.isSome() ? fn(o.value) : undefined)) as AsyncOption<Awaited<U>>;
+    }
+
+    /**
+     * Chains a computation that returns an `Option`, an `AsyncOption` or a promise of an `Option`.
+     * A throwing or rejecting `fn` gives `None`, as with `map`.
+     */
+    flatMap<U>(fn: (value: T) => OptionLike<U>): AsyncOption<U> {
+        return new AsyncOption<U>(this.promise
+            .then(o => o.isSome() ? fn(o.value) : None as Option<U>)
+            .then(undefined, () => None as Option<U>));
+    }
+
+    /** Pattern matches on the settled `Option`. */
+    match<R>(handlers: { Some: (value: T) => R, None: () => R }): Promise<R> {
+        return this.promise.then(o => o.match(handlers));
+    }
+
+    /** Resolves to the value, or rejects because there is none. */
+    unwrap(): Promise<T> {
+        return this.promise.then(o => o.unwrap());
+    }
+
+    /** Resolves to the value, or to the provided default value. */
+    unwrapOr(defaultValue: ValueOrFn<T>): Promise<T> {
+        return this.promise.then(o => o.isSome() ? o.value : BAKUtilsGetFnValue(defaultValue));
+    }
+
+    /** Resolves to the value, or to `undefined`. */
+    unwrapOrU(): Promise<T | undefined> {
+        return this.promise.then(o => o.unwrapOrU());
+    }
+
+    /** Resolves to `true` if the settled `Option` contains a value. */
+    isSome(): Promise<boolean> {
+        return this.promise.then(o => o.isSome());
+    }
+
+    /** Resolves to `true` if the settled `Option` does not contain a value. */
+    isNone(): Promise<boolean> {
+        return this.promise.then(o => o.isNone());
+    }
+
+    /** Transforms into an `AsyncResult`, with a provided error value. */
+    okOr<E>(err: ValueOrFn<E>): AsyncResult<T, E> {
+        return new AsyncResult(this.promise.then(o => o.isSome() ? Ok<T, E>(o.value) : Err<T, E>(BAKUtilsGetFnValue(err))));
+    }
+}
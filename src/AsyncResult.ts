@@ -0,0 +1,172 @@
+import { Result, Ok, Err } from "./Result";
+import { ResultTry, type ErrorCase } from "./ResultTry";
+import { AsyncOption } from "./AsyncOption";
+import { type ValueOrFn, BAKUtilsGetFnValue } from "./Utils";
+
+/** A `Result` that may still be pending, or a plain `Result`. */
+export type ResultLike<T, E> = Result<T, E> | PromiseLike<Result<T, E>>;
+
+/**
+ * Chainable wrapper over a `Promise<Result<T, E>>`.
+ *
+ * Every combinator returns a new `AsyncResult`, so a whole async pipeline can be written as one expression
+ * and awaited only once at the end. Since it is `PromiseLike`, awaiting it gives back the plain `Result<T, E>`.
+ *
+ * @template T - The type of the successful value.
+ * @template E - The type of the error.
+ *
+ * @example
+ * ```typescript
+ * const user = await AsyncResult.try(fetch, [url])
+ *     .flatMap(res => ResultTry(() => res.json()))
+ *     .map(json => json.user)
+ *     .mapErr(e => new ApiError(e))
+ *     .unwrapOr(anonymous);
+ * ```
+ */
+export class AsyncResult<T, E> implements PromiseLike<Result<T, E>> {
+    /** The underlying promise, which never rejects while built through the static factories. */
+    private readonly promise: Promise<Result<T, E>>;
+
+    /**
+     * Creates an instance of AsyncResult.
+     *
+     * @param result - A `Result` or a promise-like of a `Result`.
+     */
+    constructor(result: ResultLike<T, E>) {
+        this.promise = Promise.resolve(result);
+    }
+
+    /**
+     * Wraps an existing `Result`, or a pending one such as the return of `Result.flatMapAsync`.
+     *
+     * @example
+     * ```typescript
+     * const r = AsyncResult.from(Ok(1).flatMapAsync(async v => Ok(v + 1)));
+     * ```
+     */
+    static from<T, E>(result: ResultLike<T, E>): AsyncResult<T, E> {
+        return new AsyncResult(result);
+    }
+
+    /**
+     * Converts any promise-like into an `AsyncResult`, mapping a rejection with the optional `errorCase`.
+     *
+     * @example
+     * ```typescript
+     * const r = AsyncResult.fromPromise(fetch(url), (e) => new NetworkError(e));
+     * ```
+     */
+    static fromPromise<T, E = Error>(
+        promise: PromiseLike<T>,
+        errorCase?: ErrorCase<E, () => PromiseLike<T>>
+    ): AsyncResult<T, E> {
+        return new AsyncResult(ResultTry(() => promise, [], errorCase) as Promise<Result<T, E>>);
+    }
+
+    /**
+     * Same as `ResultTry`, but returns a chainable `AsyncResult`.
+     *
+     * @example
+     * ```typescript
+     * const r = AsyncResult.try(fetchData, [42]).map(data => data.name);
+     * ```
+     */
+    static try<Fn extends (...args: any[]) => any, E = Error>(
+        fn: Fn,
+        args?: Parameters<Fn>,
+        errorCase?: ErrorCase<E, Fn>
+    ) {
+        return new AsyncResult(ResultTry(fn, args, errorCase));
+    }
+
+    then<R1 = Result<T, E>, R2 = never>(
+        onfulfilled?: ((value: Result<T, E>) => R1 | PromiseLike<R1>) | null,
+        onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null
+    ): Promise<R1 | R2> {
+        return this.promise.then(onfulfilled, onrejected);
+    }
+
+    /** Transforms the value with a sync or async function. A throw or rejection becomes an `Err`. */
+    map<U>(fn: (value: T) => U | PromiseLike<U>): AsyncResult<Awaited<U>, E> {
+        return this.chain(async r => r.isOk()
+            ? Ok<Awaited<U>, E>(await fn(r.value))
+            : Err<Awaited<U>, E>(r.error));
+    }
+
+    /** Transforms the error with a sync or async function, leaving a successful value untouched. A throw or rejection becomes the new `Err`. */
+    mapErr<F>(fn: (error: E) => F | PromiseLike<F>): AsyncResult<T, Awaited<F>> {
+        return this.chain(async r => r.isErr()
+            ? Err<T, Awaited<F>>(await fn(r.error))
+            : Ok<T, Awaited<F>>(r.value));
+    }
+
+    /** Chains a computation that returns a `Result`, an `AsyncResult` or a promise of a `Result`. A throw or rejection becomes an `Err`. */
+    flatMap<U, F = E>(fn: (value: T) => ResultLike<U, F>): AsyncResult<U, E | F> {
+        return this.chain<U, E | F>(r => r.isOk()
+            ? fn(r.value)
+            : Err<U, E | F>(r.error));
+    }
+
+    /** Recovers from an error with a computation that returns a `Result`, an `AsyncResult` or a promise of a `Result`. A throw or rejection becomes the new `Err`. */
+    orElse<F>(fn: (error: E) => ResultLike<T, F>): AsyncResult<T, F> {
+        return this.chain<T, F>(r => r.isErr()
+            ? fn(r.error)
+            : Ok<T, F>(r.value));
+    }
+
+    /** Calls `fn` with the value (if successful) for side effects. A throw becomes an `Err`. */
+    inspect(fn: (value: T) => void): AsyncResult<T, E> {
+        return this.chain(r => r.inspect(fn));
+    }
+
+    /** Calls `fn` with the error (if failed) for side effects. A throw becomes the new `Err`. */
+    inspectErr(fn: (error: E) => void): AsyncResult<T, E> {
+        return this.chain(r => r.inspectErr(fn));
+    }
+
+    /** Runs `step` on the settled `Result`, turning a throw or rejection into an `Err` so the chain never rejects. */
+    private chain<U, F>(step: (result: Result<T, E>) => ResultLike<U, F>): AsyncResult<U, F> {
+        return new AsyncResult(this.promise.then(step).then(undefined, (error: F) => Err<U, F>(error)));
+    }
+
+    /** Pattern matches on the settled `Result`. */
+    match<R>(handlers: { Ok: (value: T) => R, Err: (error: E) => R }): Promise<R> {
+        return this.promise.then(r => r.match(handlers));
+    }
+
+    /** Resolves to the value, or rejects with the error. */
+    unwrap(): Promise<T> {
+        return this.promise.then(r => r.unwrap());
+    }
+
+    /** Resolves to the value, or to the provided default value. */
+    unwrapOr(defaultValue: ValueOrFn<T>): Promise<T> {
+        return this.promise.then(r => r.isOk() ? r.value : BAKUtilsGetFnValue(defaultValue));
+    }
+
+    /** Resolves to the value, or to the result of calling `fn` with the error. */
+    unwrapOrElse(fn: (error: E) => T): Promise<T> {
+        return this.promise.then(r => r.unwrapOrElse(fn));
+    }
+
+    /** Resolves to `true` if the settled `Result` is successful. */
+    isOk(): Promise<boolean> {
+        return this.promise.then(r => r.isOk());
+    }
+
+    /** Resolves to `true` if the settled `Result` is an error. */
+    isErr(): Promise<boolean> {
+        return this.promise.then(r => r.isErr());
+    }
+
+    /** Allows `yield*` on an `AsyncResult` directly inside `Result.genAsync`. */
+    async *[Symbol.asyncIterator](): AsyncGenerator<Result<never, E>, T, any> {
+        return yield* await this.promise;
+    }
+
+    /** Converts into an `AsyncOption`, discarding the error. */
+    toOption(): AsyncOption<T> {
+        return new AsyncOption(this.promise.then(r => r.toOption()));
+    }
+}
@@ -0,0 +1,170 @@
+import { defineError } from "./TaggedError";
+
+/**
+ * State of a circuit:
+ * - `closed`: calls go through, and consecutive failures are counted.
+ * - `open`: calls fail fast with a `CircuitOpenError` until `resetTimeoutMs` elapsed.
+ * - `half-open`: up to `halfOpenMax` trial calls go through; a success closes the circuit, a failure opens it again.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/** Event emitted when a circuit changes state. */
+export interface CircuitStateChange {
+    from: CircuitState;
+    to: CircuitState;
+    /** Consecutive failures counted when the change happened. */
+    failures: number;
+    /** Key of the circuit, when it was created with `Circuit.get`. */
+    key?: string;
+}
+
+/**
+ * Options of a circuit.
+ */
+export interface CircuitOptions {
+    /** Consecutive failures that open the circuit. Defaults to `5`. */
+    failureThreshold?: number;
+    /** Time in ms the circuit stays open before allowing trial calls. Defaults to `30000`. */
+    resetTimeoutMs?: number;
+    /** Trial calls allowed at the same time while half-open. Defaults to `1`. */
+    halfOpenMax?: number;
+    /** Which errors count as failures. Defaults to every error; other errors count as successes. */
+    isFailure?: (error: unknown) => boolean;
+    /** Called on every state change. */
+    onStateChange?: (change: CircuitStateChange) => void;
+}
+
+/** Error thrown (or rejected) instead of calling the protected function while its circuit is open. */
+export class CircuitOpenError extends defineError('CircuitOpenError')<{ retryAfterMs: number; key?: string }> { }
+
+const registry = new Map<string, Circuit>();
+
+/**
+ * Tracks the failures of a protected function and decides whether calls may go through.
+ * Used by `@CircuitBreaker` and `circuitBreaker`, and can be shared between them through `Circuit.get(key)`.
+ *
+ * @example
+ * ```ts
+ * const circuit = Circuit.get('dataverse', { failureThreshold: 3 });
+ * circuit.subscribe(({ from, to }) => console.info(`dataverse circuit: ${from} → ${to}`));
+ * circuit.state;    // 'closed'
+ * circuit.failures; // 0
+ * ```
+ */
+export class Circuit {
+    public readonly key?: string;
+    private readonly options: CircuitOptions;
+    private readonly listeners = new Set<(change: CircuitStateChange) => void>();
+    private current: CircuitState = 'closed';
+    private failureCount = 0;
+    private openedAt = 0;
+    private trials = 0;
+
+    constructor(options: CircuitOptions = {}, key?: string) {
+        this.options = options;
+        this.key = key;
+        if (options.onStateChange)
+            this.listeners.add(options.onStateChange);
+    }
+
+    /** Returns the circuit registered under `key`, creating it with `options` on first use. */
+    static get(key: string, options?: CircuitOptions): Circuit {
+        let circuit = registry.get(key);
+        if (!circuit) {
+            circuit = new Circuit(options, key);
+            registry.set(key, circuit);
+        }
+        return circuit;
+    }
+
+    /** The current state, moving from `open` to `half-open` once `resetTimeoutMs` elapsed. */
+    get state(): CircuitState {
+        if (this.current === 'open' && this.retryAfterMs() === 0)
+            this.transition('half-open');
+        return this.current;
+    }
+
+    /** Consecutive failures counted since the circuit was last closed. */
+    get failures(): number {
+        return this.failureCount;
+    }
+
+    /** Listens to state changes. Returns a function that removes the listener. */
+    subscribe(listener: (change: CircuitStateChange) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Checks if a call may go through, reserving a trial call while half-open.
+     * Every acquired call must be settled with `success` or `failure`.
+     */
+    acquire(): boolean {
+        const state = this.state;
+        if (state === 'open')
+            return false;
+        if (state === 'half-open') {
+            if (this.trials >= (this.options.halfOpenMax ?? 1))
+                return false;
+            this.trials++;
+        }
+        return true;
+    }
+
+    /** Creates the error for a call rejected by `acquire`. */
+    openError(): CircuitOpenError {
+        const retryAfterMs = this.retryAfterMs();
+        return new CircuitOpenError({
+            retryAfterMs,
+            key: this.key,
+            message: `Circuit${this.key ? ` '${this.key}'` : ''} is open, retry after ${retryAfterMs}ms`
+        });
+    }
+
+    /** Records a successful call, closing the circuit if it was half-open. */
+    success(): void {
+        this.release();
+        this.failureCount = 0;
+        if (this.current === 'half-open')
+            this.transition('closed');
+    }
+
+    /** Records a failed call, opening the circuit once the threshold is reached (or right away while half-open). */
+    failure(error: unknown): void {
+        if (this.options.isFailure && !this.options.isFailure(error))
+            return this.success();
+        this.release();
+        this.failureCount++;
+        if (this.current === 'half-open' || this.failureCount >= (this.options.failureThreshold ?? 5)) {
+            this.openedAt = Date.now();
+            this.transition('open');
+        }
+    }
+
+    /** Closes the circuit and clears its failures. */
+    reset(): void {
+        this.failureCount = 0;
+        this.trials = 0;
+        this.transition('closed');
+    }
+
+    private release(): void {
+        if (this.current === 'half-open' && this.trials > 0)
+            this.trials--;
+    }
+
+    private retryAfterMs(): number {
+        return Math.max(0, this.openedAt + (this.options.resetTimeoutMs ?? 30000) - Date.now());
+    }
+
+    private transition(to: CircuitState): void {
+        const from = this.current;
+        if (from === to)
+            return;
+        this.current = to;
+        if (to !== 'half-open')
+            this.trials = 0;
+        const change: CircuitStateChange = { from, to, failures: this.failureCount, key: this.key };
+        this.listeners.forEach(listener => listener(change));
+    }
+}
@@ -0,0 +1,230 @@
+import { Result, Ok, Err } from "./Result";
+import { Option, None, Some } from "./Option";
+import { OneOf, createOneOf } from "./OneOf";
+import { defineError } from "./TaggedError";
+
+/** The keys (and array indexes) from the decoded root to a value. */
+export type DecodePath = (string | number)[];
+
+/**
+ * Error returned by a `Decoder`, carrying the path of the invalid value and what was expected there.
+ *
+ * @example
+ * ```ts
+ * const err = Decoder.object({ age: Decoder.number }).decode({ age: '1' }).unwrapErr();
+ * err.path;     // ['age']
+ * err.expected; // 'number'
+ * err.actual;   // '1'
+ * err.message;  // 'Expected number at $.age, but received "1"'
+ * ```
+ */
+export class DecodeError extends defineError('DecodeError')<{ path: DecodePath; expected: string; actual: unknown }> {
+    constructor(fields: { path: DecodePath; expected: string; actual: unknown; cause?: unknown }) {
+        super({ ...fields, message: `Expected ${fields.expected} at ${formatPath(fields.path)}, but received ${describeValue(fields.actual)}` });
+    }
+}
+
+/**
+ * Decodes an unknown input into a value of type `T`, returning a `Result` instead of throwing.
+ *
+ * @template T - The type of the decoded value.
+ */
+export interface Decoder<T> {
+    /** A description of the expected input, used in error messages. */
+    readonly expected: string;
+    /** Decodes an unknown input. */
+    decode(input: unknown): Result<T, DecodeError>;
+    /**
+     * @internal
+     * Decodes an input found at `path`, so errors point to the invalid value from the root.
+     */
+    decodeAt(input: unknown, path: DecodePath): Result<T, DecodeError>;
+}
+
+/** Extracts the decoded type from a `Decoder`. */
+export type DecodedType<D> = D extends Decoder<infer T> ? T : never;
+
+/** Maps a record of decoders to the record of their decoded types. */
+type DecodedRecord<D extends Record<string, Decoder<any>>> = { [K in keyof D]: DecodedType<D[K]> };
+
+/**
+ * Creates a decoder from a decoding function.
+ *
+ * @example
+ * ```ts
+ * const date = createDecoder('ISO date', (input, path) => {
+ *     const d = new Date(input as string);
+ *     return isNaN(d.getTime()) ? Err(new DecodeError({ path, expected: 'ISO date', actual: input })) : Ok(d);
+ * });
+ * ```
+ */
+export function createDecoder<T>(
+    expected: string,
+    decodeAt: (input: unknown, path: DecodePath) => Result<T, DecodeError>
+): Decoder<T> {
+    return {
+        expected,
+        decode: (input) => decodeAt(input, []),
+        decodeAt
+    };
+}
+
+function primitive<T>(expected: string, guard: (input: unknown) => boolean): Decoder<T> {
+    return createDecoder(expected, (input, path) => guard(input)
+        ? Ok(input as T)
+        : Err(new DecodeError({ path, expected, actual: input })));
+}
+
+/**
+ * Built-in decoder combinators.
+ *
+ * @example
+ * ```ts
+ * const User = Decoder.object({
+ *     id: Decoder.number,
+ *     name: Decoder.string,
+ *     role: Decoder.literal('admin', 'user'),
+ *     email: Decoder.optional(Decoder.string),
+ * });
+ * type User = DecodedType<typeof User>;
+ * // { id: number; name: string; role: 'admin' | 'user'; email: Option<string> }
+ *
+ * const user = Decoder.json(User).decode(text); // Result<User, DecodeError>
+ * ```
+ */
+export const Decoder = {
+    /** Decodes a string. */
+    string: primitive<string>('string', input => typeof input === 'string'),
+    /** Decodes a number, rejecting `NaN`. */
+    number: primitive<number>('number', input => typeof input === 'number' && !Number.isNaN(input)),
+    /** Decodes a boolean. */
+    boolean: primitive<boolean>('boolean', input => typeof input === 'boolean'),
+    /** Decodes one of the provided literal values. */
+    literal<const L extends readonly (string | number | boolean | null)[]>(...literals: L): Decoder<L[number]> {
+        return primitive(literals.map(l => JSON.stringify(l)).join(' | '), input => literals.includes(input as L[number]));
+    },
+    /** Decodes an object with the provided fields, dropping any other key. */
+    object<D extends Record<string, Decoder<any>>>(fields: D): Decoder<DecodedRecord<D>> {
+        const expected = `{ ${Object.keys(fields).map(key => `${key}: ${fields[key].expected}`).join('; ')} }`;
+        return createDecoder(expected, (input, path) => {
+            if (typeof input !== 'object' || input === null || Array.isArray(input))
+                return Err(new DecodeError({ path, expected: 'object', actual: input }));
+            const value: any = {};
+            for (const key of Object.keys(fields)) {
+                const field = fields[key].decodeAt((input as Record<string, unknown>)[key], [...path, key]);
+                if (field.isErr())
+                    return Err(field.error);
+                value[key] = field.value;
+            }
+            return Ok(value);
+        });
+    },
+    /** Decodes an array whose items all match `item`. */
+    array<T>(item: Decoder<T>): Decoder<T[]> {
+        return createDecoder(`${item.expected}[]`, (input, path) => {
+            if (!Array.isArray(input))
+                return Err(new DecodeError({ path, expected: 'array', actual: input }));
+            return Result.all(input.map((value, i) => item.decodeAt(value, [...path, i])));
+        });
+    },
+    /** Decodes `null`/`undefined` into `None`, and any other input with `decoder` into `Some`. */
+    optional<T>(decoder: Decoder<T>): Decoder<Option<T>> {
+        return createDecoder(`${decoder.expected} | undefined`, (input, path) => input === undefined || input === null
+            ? Ok(None as Option<T>)
+            : decoder.decodeAt(input, path).map(value => Some(value as any) as Option<T>));
+    },
+    /** Decodes the input with the first matching decoder. */
+    union<D extends readonly Decoder<any>[]>(...decoders: D): Decoder<DecodedType<D[number]>> {
+        const expected = decoders.map(d => d.expected).join(' | ');
+        return createDecoder(expected, (input, path) => {
+            for (const decoder of decoders) {
+                const result = decoder.decodeAt(input, path);
+                if (result.isOk())
+                    return result;
+            }
+            return Err(new DecodeError({ path, expected, actual: input }));
+        });
+    },
+    /**
+     * Decodes the input with the first matching labeled decoder, producing a `OneOf` with that label.
+     *
+     * @example
+     * ```ts
+     * const Id = Decoder.oneOf({ Numeric: Decoder.number, Slug: Decoder.string });
+     * Id.decode(5).unwrap().is('Numeric'); // true
+     * ```
+     */
+    oneOf<D extends Record<string, Decoder<any>>>(decoders: D): Decoder<OneOf<DecodedRecord<D>>> {
+        const labels = Object.keys(decoders);
+        const expected = labels.map(label => `${label}(${decoders[label].expected})`).join(' | ');
+        return createDecoder(expected, (input, path) => {
+            for (const label of labels) {
+                const result = decoders[label].decodeAt(input, path);
+                if (result.isOk())
+                    return Ok(createOneOf<DecodedRecord<D>, keyof D>(label, result.value));
+            }
+            return Err(new DecodeError({ path, expected, actual: input }));
+        });
+    },
+    /**
+     * Adds a check to a decoder. A type-guard predicate narrows the decoded type.
+     *
+     * @example
+     * ```ts
+     * const positive = Decoder.refine(Decoder.number, n => n > 0, 'positive number');
+     * ```
+     */
+    refine: function <T>(decoder: Decoder<T>, predicate: (value: T) => boolean, expected: string): Decoder<T> {
+        return createDecoder(expected, (input, path) => decoder.decodeAt(input, path).flatMap(value => predicate(value)
+            ? Ok(value)
+            : Err(new DecodeError({ path, expected, actual: input }))));
+    } as {
+        <T, U extends T>(decoder: Decoder<T>, predicate: (value: T) => value is U, expected: string): Decoder<U>;
+        <T>(decoder: Decoder<T>, predicate: (value: T) => boolean, expected: string): Decoder<T>;
+    },
+    /**
+     * Transforms the decoded value. If `fn` throws, the thrown error becomes the `cause` of a `DecodeError`.
+     *
+     * @example
+     * ```ts
+     * const date = Decoder.transform(Decoder.string, s => new Date(s));
+     * ```
+     */
+    transform<T, U>(decoder: Decoder<T>, fn: (value: T) => U): Decoder<U> {
+        return createDecoder(decoder.expected, (input, path) => decoder.decodeAt(input, path).flatMap(value => {
+            try {
+                return Ok(fn(value));
+            } catch (cause) {
+                return Err(new DecodeError({ path, expected: decoder.expected, actual: input, cause }));
+            }
+        }));
+    },
+    /** Parses a JSON string and decodes the parsed value with `decoder`. */
+    json<T>(decoder: Decoder<T>): Decoder<T> {
+        return createDecoder(`JSON of ${decoder.expected}`, (input, path) => {
+            if (typeof input !== 'string')
+                return Err(new DecodeError({ path, expected: 'JSON string', actual: input }));
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(input);
+            } catch (cause) {
+                return Err(new DecodeError({ path, expected: 'JSON string', actual: input, cause }));
+            }
+            return decoder.decodeAt(parsed, path);
+        });
+    }
+};
+
+function formatPath(path: DecodePath): string {
+    return path.reduce<string>((acc, key) => typeof key === 'number' ? `${acc}[${key}]` : `${acc}.${key}`, '$');
+}
+
+function describeValue(value: unknown): string {
+    if (value === undefined) return 'undefined';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'object' && value !== null) return 'object';
+    if (typeof value === 'function') return 'function';
+    if (typeof value === 'bigint') return `${value}n`;
+    if (typeof value === 'symbol') return String(value);
+    return JSON.stringify(value);
+}
@@ -1,4 +1,12 @@
-import { BAKUtilsIsPromise, BAKUtilsIsThenable, BAKUtilsIsXrmPromiseLike, BAKUtilsIsXrmError } from './Utils';
+import { BAKUtilsIsPromise, BAKUtilsIsThenable, BAKUtilsIsXrmPromiseLike, BAKUtilsIsXrmError, BAKUtilsIsIterator, BAKUtilsIsAsyncIterator, BAKUtilsIsAsyncFunction } from './Utils';
+import { Result, Ok, Err } from './Result';
+import { type ErrorCase, BAKUtilsMapErrorCase } from './ResultTry';
+import { type RetryOptions, RetryError, BAKUtilsRetryDelay, BAKUtilsShouldRetry, BAKUtilsSleep } from './Retry';
+import { type CircuitOptions, type CircuitOpenError, Circuit } from './CircuitBreaker';
+import { TimeoutError, BAKUtilsRaceDeadline } from './Timeout';
+import { type FallbackStep, FallbackError } from './Fallback';
+import { type CatchEventType, BAKUtilsEmitCatchEvent, BAKUtilsNow, BAKUtilsClassName } from './Observability';
+import { type SuccessHook, type FinallyHook, type MeasureSink, BAKUtilsReportMeasurement } from './Lifecycle';
 
 /**
  * Signature for a user‑supplied *error handler*.
@@ -23,6 +31,71 @@ export type Handler<
     Ctx = any
 > = (err: Err, fnName: string, ctx: Ctx, ...args: Args) => Return;
 export type ErrCtor<E> = (new (...p: any[]) => E) | undefined;
+/** The error classes a catcher handles: one class, a list of classes, or `undefined` for anything. */
+type ErrFilter<E> = ErrCtor<E> | readonly (new (...p: any[]) => E)[];
+
+/** Options of `@CatchAll`. */
+export interface CatchAllOptions {
+    /** Only wraps these members. */
+    include?: readonly (string | symbol)[];
+    /** Never wraps these members. */
+    exclude?: readonly (string | symbol)[];
+    /** Also wraps static methods. Defaults to `false`. */
+    static?: boolean;
+    /** Also wraps getters and setters. Defaults to `false`. */
+    accessors?: boolean;
+}
+
+/** Options of `@Retry`. */
+export interface RetryDecoratorOptions<Return = any, Args extends any[] = any[], Ctx = any> extends RetryOptions {
+    /**
+     * Called once every attempt failed, with a `RetryError` holding the error of each attempt.
+     * Its return value becomes the result of the call. When omitted, the last error is re-thrown.
+     */
+    onGiveUp?: Handler<Return, RetryError, Args, Ctx>;
+}
+
+/** Options of `@CircuitBreaker` and `circuitBreaker`. */
+export interface CircuitBreakerOptions<Return = any, Args extends any[] = any[], Ctx = any> extends CircuitOptions {
+    /** Uses the circuit registered under this key (see `Circuit.get`), shared by everything using the same key. */
+    key?: string;
+    /**
+     * Gives each instance its own circuit, instead of one shared by every instance. Ignored when `key` is set.
+     * Calls without an object `this` (e.g. a detached method) share one separate circuit.
+     */
+    perInstance?: boolean;
+    /**
+     * Handles the `CircuitOpenError` of calls rejected while the circuit is open; its return value becomes the result of the call.
+     * When omitted, the error is thrown (or rejected, for methods that returned a Promise before).
+     */
+    onOpen?: Handler<Return, CircuitOpenError, Args, Ctx>;
+}
+
+/** Methods wrapped by a catcher decorator, which `@CatchAll` leaves alone. */
+const decoratedMethods = new WeakSet<Function>();
+
+/**
+ * Return type of a function wrapped by `toResultFn` (or a method decorated with `@TryResult`):
+ * async and PromiseLike returns become `Promise<Result<T, E>>`, sync returns become `Result<T, E>`.
+ */
+export type ResultReturn<Fn extends (...args: any[]) => any, E = Error> = 0 extends (1 & ReturnType<Fn>)
+    ? Result<any, E>
+    : ReturnType<Fn> extends PromiseLike<infer T>
+        ? Promise<Result<T, E>>
+        : Result<ReturnType<Fn>, E>;
+
+/** Options of `createCatchLogic`. */
+interface CatchLogicOptions {
+    /** Converts successful values (sync or resolved). */
+    mapResult?: (value: any) => any;
+    /** Skips the observability events, for wrappers using the catch logic as plumbing rather than as a catcher. */
+    silent?: boolean;
+    /**
+     * Wraps returned iterators and async iterators (such as generators), so errors raised by `next()`, `throw()` and `return()` reach the handler.
+     * The handler's value is yielded as the last item, or the iteration just ends when it returns `undefined`.
+     */
+    iterators?: boolean;
+}
 
 /**
  * Core implementation used by *both* decorators and higher‑order wrappers.
@@ -30,65 +103,264 @@ export type ErrCtor<E> = (new (...p: any[]) => E) | undefined;
  *  * native Promises
  *  * Dynamics‑CRM `Xrm.Async.PromiseLike`
  *  * generic thenables
+ *  * iterators and async iterators, when `options.iterators` is set
  *  * plain sync returns
+ *
+ * Errors (thrown or rejected) that are neither an instance of `ErrorClass` nor an Xrm error object propagate untouched.
+ * Emits `caught`, `recovered` and `rethrown` events unless `options.silent` is set.
  */
 function createCatchLogic<R, E, A extends any[], C>(
-    ErrorClass: ErrCtor<E>,
+    ErrorClass: ErrFilter<E>,
     handler: Handler<R, any, A, C>,
     fn: (...a: A) => any,
     fnName: string,
+    options: CatchLogicOptions = {},
 ) {
+    const { mapResult = (value: any) => value, silent = false, iterators = false } = options;
     return function (this: C, ...args: A): any {
         const ctx = this;
+        const start = BAKUtilsNow();
 
-        const invokeHandler = (err: any) =>
-            handler.call(null, err, fnName, ctx, ...args);
+        const emit = (type: CatchEventType, error: unknown, kind: 'sync' | 'async', value?: unknown) => {
+            if (!silent)
+                BAKUtilsEmitCatchEvent(type, { fnName, className: BAKUtilsClassName(ctx), args, durationMs: BAKUtilsNow() - start, kind, error, value });
+        };
+        const invokeHandler = (err: any, kind: 'sync' | 'async') => {
+            emit('caught', err, kind);
+            let value: R;
+            try {
+                value = handler.call(null, err, fnName, ctx, ...args);
+            } catch (handlerErr) {
+                emit('rethrown', handlerErr, kind);
+                throw handlerErr;
+            }
+            emit('recovered', err, kind, value);
+            return value;
+        };
+        const invokeOrReject = (err: any) => {
+            if (isHandled(ErrorClass, err))
+                return invokeHandler(err, 'async');
+            emit('rethrown', err, 'async');
+            return Promise.reject(err); // erro de tipo diferente → propaga
+        };
+        const recoverIteration = (kind: 'sync' | 'async') => (err: any) => {
+            if (isHandled(ErrorClass, err))
+                return invokeHandler(err, kind);
+            emit('rethrown', err, kind);
+            throw err;
+        };
 
         try {
             const result = fn.apply(ctx, args);
 
-            if (BAKUtilsIsPromise(result)) return result.catch(invokeHandler);
-            if (BAKUtilsIsXrmPromiseLike(result)) return new Promise((ok, bad) => (result as any).then(ok).catch(bad)).catch(invokeHandler);
-            if (BAKUtilsIsThenable(result)) return Promise.resolve(result).catch(invokeHandler);
+            const promise = toNativePromise(result);
+            if (promise) return promise.then(mapResult, invokeOrReject);
 
-            return result; // síncrono OK
+            if (iterators && BAKUtilsIsAsyncIterator(result))
+                return mapResult(guardAsyncIterator(result, recoverIteration('async')));
+            if (iterators && BAKUtilsIsIterator(result))
+                return mapResult(guardIterator(result, recoverIteration('sync')));
+
+            return mapResult(result); // síncrono OK
         } catch (syncErr) {
-            if (!ErrorClass || syncErr instanceof ErrorClass || BAKUtilsIsXrmError(syncErr))
-                return invokeHandler(syncErr);
+            if (isHandled(ErrorClass, syncErr))
+                return invokeHandler(syncErr, 'sync');
+            emit('rethrown', syncErr, 'sync');
             throw syncErr; // erro de tipo diferente → propaga
         }
     };
 }
 
+/** Converts Promise, Xrm PromiseLike and thenable returns into a native Promise, or returns `undefined` for sync values. */
+function toNativePromise(result: any): Promise<any> | undefined {
+    if (BAKUtilsIsPromise(result)) return result;
+    if (BAKUtilsIsXrmPromiseLike(result)) return new Promise((ok, bad) => (result as any).then(ok).catch(bad));
+    if (BAKUtilsIsThenable(result)) return Promise.resolve(result);
+    return undefined;
+}
+
+/**
+ * Wraps `iterator` so `next`, `throw` and `return` are forwarded to it, and any error they raise goes to `recover`.
+ * The value returned by `recover` is produced as the last item, unless it is `undefined`; either way the iteration ends.
+ */
+function guardIterator(iterator: Iterator<any>, recover: (err: unknown) => unknown): IterableIterator<any> & Required<Iterator<any>> {
+    let done = false;
+    const step = (call: () => IteratorResult<any>): IteratorResult<any> => {
+        try {
+            const result = call();
+            done = !!result.done;
+            return result;
+        } catch (err) {
+            done = true;
+            const fallback = recover(err);
+            return fallback === undefined ? { value: undefined, done: true } : { value: fallback, done: false };
+        }
+    };
+
+    return {
+        next: (...sent: [] | [any]) => done ? { value: undefined, done: true } : step(() => iterator.next(...sent)),
+        throw: (err?: any) => {
+            if (done)
+                throw err;
+            return step(() => {
+                if (iterator.throw)
+                    return iterator.throw(err);
+                iterator.return?.();
+                throw err;
+            });
+        },
+        return: (value?: any) => done || !iterator.return
+            ? (done = true, { value, done: true })
+            : step(() => iterator.return!(value)),
+        [Symbol.iterator]() { return this; },
+    };
+}
+
+/** Async counterpart of `guardIterator`; `recover` may return a promise, which is awaited. */
+function guardAsyncIterator(iterator: AsyncIterator<any>, recover: (err: unknown) => unknown): AsyncIterableIterator<any> & Required<AsyncIterator<any>> {
+    let done = false;
+    const step = async (call: () => Promise<IteratorResult<any>>): Promise<IteratorResult<any>> => {
+        try {
+            const result = await call();
+            done = !!result.done;
+            return result;
+        } catch (err) {
+            done = true;
+            const fallback = await recover(err);
+            return fallback === undefined ? { value: undefined, done: true } : { value: fallback, done: false };
+        }
+    };
+
+    return {
+        next: async (...sent: [] | [any]) => done ? { value: undefined, done: true } : step(() => iterator.next(...sent)),
+        throw: async (err?: any) => {
+            if (done)
+                throw err;
+            return step(async () => {
+                if (iterator.throw)
+                    return iterator.throw(err);
+                await iterator.return?.();
+                throw err;
+            });
+        },
+        return: async (value?: any) => done || !iterator.return
+            ? (done = true, { value: await value, done: true })
+            : step(() => iterator.return!(value)),
+        [Symbol.asyncIterator]() { return this; },
+    };
+}
+
+function isHandled<E>(ErrorClass: ErrFilter<E>, err: unknown): boolean {
+    if (!ErrorClass || BAKUtilsIsXrmError(err))
+        return true;
+    return Array.isArray(ErrorClass)
+        ? ErrorClass.some(Cls => err instanceof Cls)
+        : err instanceof (ErrorClass as new (...p: any[]) => E);
+}
+
+/**
+ * Builds a single handler dispatching each error to the entry of `handlers` whose class matches it first.
+ * Xrm error objects, which match any class, go to the first entry.
+ */
+function dispatchHandler<R, A extends any[], C>(handlers: Map<new (...p: any[]) => any, Handler<R, any, A, C>>): Handler<R, any, A, C> {
+    return (err, fnName, ctx, ...args) => {
+        const entries = [...handlers];
+        const [, handler] = entries.find(([Cls]) => err instanceof Cls) ?? entries[0];
+        return handler(err, fnName, ctx, ...args);
+    };
+}
+
+/** Context of the standard (TC39) member decorators supported by the method decorators of this module. */
+type MemberDecoratorContext =
+    | ClassMethodDecoratorContext
+    | ClassGetterDecoratorContext
+    | ClassSetterDecoratorContext
+    | ClassAccessorDecoratorContext;
+
+/**
+ * A method decorator, as returned by the method decorators of this module.
+ * Works both as a legacy (`experimentalDecorators`) and as a standard decorator,
+ * on methods, getters, setters, `accessor` fields and their static counterparts.
+ */
+type CatchDecorator = {
+    (target: any, propertyKey: string | symbol, descriptor?: TypedPropertyDescriptor<any>): any;
+    (value: any, context: MemberDecoratorContext): any;
+};
+
+function isStandardContext(context: unknown): context is MemberDecoratorContext | DecoratorContext {
+    return typeof context === 'object' && context !== null && 'kind' in context;
+}
+
+/**
+ * Replaces the decorated method (or each accessor function) with `wrap(original, methodName)`.
+ * A wrapper around a method with its own catcher keeps the `@CatchAll` opt-out, whatever the order of the decorators.
+ */
+function decorateMethod(wrapMethod: (original: (...a: any[]) => any, fnName: string) => (...a: any[]) => any): CatchDecorator {
+    const wrap = (original: (...a: any[]) => any, fnName: string) => {
+        const wrapped = wrapMethod(original, fnName);
+        if (decoratedMethods.has(original))
+            decoratedMethods.add(wrapped);
+        return wrapped;
+    };
+    return ((target: any, key: string | symbol | DecoratorContext, descriptor?: PropertyDescriptor): any => {
+        const wrapIfPresent = (fn: ((...a: any[]) => any) | undefined, fnName: string) => fn && wrap(fn, fnName);
+
+        if (isStandardContext(key)) {
+            const fnName = String(key.name);
+            switch (key.kind) {
+                case 'method':
+                case 'getter':
+                case 'setter':
+                    return wrap(target, fnName);
+                case 'accessor':
+                    return { get: wrapIfPresent(target.get, fnName), set: wrapIfPresent(target.set, fnName) };
+                default:
+                    throw new TypeError(`Cannot apply a method decorator to the ${key.kind} ${fnName}`);
+            }
+        }
+
+        const fnName = String(key);
+        if (descriptor && (descriptor.get || descriptor.set)) {
+            descriptor.get = wrapIfPresent(descriptor.get, fnName);
+            descriptor.set = wrapIfPresent(descriptor.set, fnName);
+            return descriptor;
+        }
+        const original: (...a: any[]) => any = descriptor?.value ?? target[key];
+        const wrapped = wrap(original, fnName);
+
+        if (descriptor) {
+            descriptor.value = wrapped;
+            return descriptor;
+        }
+        target[key] = wrapped;
+    }) as CatchDecorator;
+}
+
 function makeDecorator<R, E, A extends any[], C>(
-    ErrCls: ErrCtor<E>,
+    ErrCls: ErrFilter<E>,
     handler: Handler<R, E, A, C>,
-) {
-    return (
-        target: any,
-        propertyKey: string | symbol,
-        descriptor?: TypedPropertyDescriptor<any>,
-    ): TypedPropertyDescriptor<any> | void => {
-        const original: (...a: A) => any = descriptor?.value ?? (target as any)[propertyKey];
-
+    options?: CatchLogicOptions,
+): CatchDecorator {
+    return decorateMethod((original, fnName) => {
         const wrapped = createCatchLogic<R, any, A, C>(
             ErrCls as any,
             handler,
             original,
-            String(propertyKey),
+            fnName,
+            options,
         );
-
-        if (descriptor) {
-            descriptor.value = wrapped;
-            return descriptor;
-        }
-        (target as any)[propertyKey] = wrapped;
-    };
+        decoratedMethods.add(wrapped);
+        return wrapped;
+    });
 }
 
 
 /**
- * `@Catcher(SpecificError, handler)` — catch **only** a specific error subclass.
+ * `@Catcher(SpecificError, handler)` — catch **only** a specific error subclass (thrown or rejected).
+ * Other errors are re‑thrown, or re‑rejected for async methods.
+ *
+ * Also accepts a list of error classes sharing one handler, or a `Map` dispatching each error class to its own handler
+ * (the first matching entry wins).
  *
  * @example
  * ```ts
@@ -97,6 +369,15 @@ function makeDecorator<R, E, A extends any[], C>(
  * class Repo {
  *   @Catcher(DBError, (e) => console.warn('DB down:', e.message))
  *   query() { throw new DBError('timeout'); }
+ *
+ *   @Catcher([DBError, TypeError], (e) => null)
+ *   async find() { ... }
+ *
+ *   @Catcher(new Map([
+ *     [DBError, () => 'retry later'],
+ *     [TypeError, () => 'bad input'],
+ *   ]))
+ *   save() { ... }
  * }
  * new Repo().query(); // logged but not re‑thrown
  * ```
@@ -109,8 +390,33 @@ export function Catcher<
 >(
     ErrCls: new (...p: any[]) => ErrorType,
     handler: Handler<ReturnType, ErrorType, Args, Ctx>,
+): CatchDecorator;
+export function Catcher<
+    ReturnType = any,
+    Classes extends readonly (new (...p: any[]) => Error)[] = (new (...p: any[]) => Error)[],
+    Args extends any[] = any[],
+    Ctx = any,
+>(
+    ErrClasses: Classes,
+    handler: Handler<ReturnType, InstanceType<Classes[number]>, Args, Ctx>,
+): CatchDecorator;
+export function Catcher<
+    ReturnType = any,
+    Args extends any[] = any[],
+    Ctx = any,
+>(
+    handlers: Map<new (...p: any[]) => Error, Handler<ReturnType, any, Args, Ctx>>,
+): CatchDecorator;
+export function Catcher(
+    ErrCls: ErrFilter<Error> | Map<new (...p: any[]) => Error, Handler>,
+    handler?: Handler,
 ) {
-    return makeDecorator<ReturnType, ErrorType, Args, Ctx>(ErrCls, handler);
+    if (ErrCls instanceof Map) {
+        if (ErrCls.size === 0)
+            throw new TypeError('@Catcher received an empty Map: add at least one [ErrorClass, handler] entry');
+        return makeDecorator([...ErrCls.keys()], dispatchHandler(ErrCls), { iterators: true });
+    }
+    return makeDecorator(ErrCls, handler!, { iterators: true });
 }
 
 /**
@@ -148,7 +454,528 @@ export function AnyErrorCatcher<
     Args extends any[] = any[],
     Ctx = any,
 >(handler: Handler<ReturnType, unknown, Args, Ctx>) {
-    return makeDecorator<ReturnType, unknown, Args, Ctx>(undefined, handler);
+    return makeDecorator<ReturnType, unknown, Args, Ctx>(undefined, handler, { iterators: true });
+}
+
+/**
+ * `@CatchAll(handler, options?)` — class decorator wrapping every own prototype method (and optionally static methods,
+ * getters and setters) with the same error handling as `@DefaultCatcher`.
+ *
+ * Methods that have their own catcher decorator (`@Catcher`, `@DefaultCatcher`, ...) are left alone.
+ * The handler has the same signature as for the other catchers, so the built-in handlers work here too.
+ * Its method name is qualified with the decorated class, as in `'AccountService.load'`, which stays right
+ * for subclasses and detached calls.
+ *
+ * @example
+ * ```ts
+ * @CatchAll(logAndReturn(null), { static: true, exclude: ['dispose'] })
+ * class AccountService {
+ *   load(id: string) { ... }
+ *   static create() { ... }
+ * }
+ * ```
+ */
+export function CatchAll<ReturnType = any, Ctx = any>(
+    handler: Handler<ReturnType, Error, any[], Ctx>,
+    options: CatchAllOptions = {},
+) {
+    return <T extends Function>(target: T, _context?: ClassDecoratorContext): void => {
+        const qualified: Handler<ReturnType, Error, any[], Ctx> = (err, fnName, ctx, ...args) =>
+            handler(err, `${target.name}.${fnName}`, ctx, ...args);
+        const wrapMembers = (owner: any, skip: (string | symbol)[]) => {
+            for (const key of Reflect.ownKeys(owner)) {
+                if (skip.includes(key)
+                    || (options.include && !options.include.includes(key))
+                    || options.exclude?.includes(key))
+                    continue;
+                const descriptor = Object.getOwnPropertyDescriptor(owner, key)!;
+                const wrap = (fn: Function | undefined) => fn && !decoratedMethods.has(fn)
+                    ? createCatchLogic<ReturnType, Error, any[], Ctx>(Error, qualified, fn as (...a: any[]) => any, String(key), { iterators: true })
+                    : fn;
+
+                if (typeof descriptor.value === 'function')
+                    descriptor.value = wrap(descriptor.value);
+                else if (options.accessors && (descriptor.get || descriptor.set)) {
+                    descriptor.get = wrap(descriptor.get) as () => any;
+                    descriptor.set = wrap(descriptor.set) as (v: any) => void;
+                }
+                else
+                    continue;
+                Object.defineProperty(owner, key, descriptor);
+            }
+        };
+
+        wrapMembers(target.prototype, ['constructor']);
+        if (options.static)
+            wrapMembers(target, ['length', 'name', 'prototype']);
+    };
+}
+
+/**
+ * `@Retry(options)` — call the method again when it throws or rejects, following the same retry policy as `ResultTry.retry`.
+ *
+ * Async methods (Promise, Xrm PromiseLike or thenable) wait for the backoff delay between attempts, while sync methods
+ * are retried right away. Every attempt runs with the same `this` and arguments.
+ * Once the attempts are used up, `onGiveUp` handles the failure; otherwise the last error propagates,
+ * so a `@Catcher` placed above `@Retry` only runs after the last attempt.
+ *
+ * @example
+ * ```ts
+ * class Api {
+ *   @Catcher(HttpError, () => null)
+ *   @Retry({ attempts: 3, backoff: 'exponential', retryOn: [HttpError] })
+ *   async getAccount(id: string) { ... }
+ * }
+ * ```
+ */
+export function Retry<ReturnType = any, Args extends any[] = any[], Ctx = any>(
+    options: RetryDecoratorOptions<ReturnType, Args, Ctx> = {},
+) {
+    return decorateMethod((original, fnName) => function (this: Ctx, ...args: Args) {
+        const errors: unknown[] = [];
+        let sync = true;
+        const attempt: (this: Ctx, ...a: Args) => any = createCatchLogic<any, unknown, Args, Ctx>(undefined, (err, name, ctx, ...a) => {
+            errors.push(err);
+            if (!BAKUtilsShouldRetry(err, errors.length, options)) {
+                if (!options.onGiveUp)
+                    throw err;
+                const retryError = new RetryError({ errors, attempts: errors.length, message: `Failed after ${errors.length} attempt(s)`, cause: err });
+                return options.onGiveUp(retryError, name, ctx, ...a);
+            }
+            const delay = sync ? 0 : BAKUtilsRetryDelay(errors.length, options);
+            options.onRetry?.(err, errors.length, delay);
+            return sync
+                ? attempt.apply(ctx, a)
+                : BAKUtilsSleep(delay).then(() => attempt.apply(ctx, a));
+        }, original, fnName, { silent: true });
+
+        try {
+            return attempt.apply(this, args);
+        } finally {
+            sync = false;
+        }
+    });
+}
+
+/**
+ * Wraps `fn` so every call goes through the circuit returned by `circuitFor(this)`,
+ * recording successes and failures (thrown or rejected) and failing fast while it is open.
+ */
+function guardWithCircuit<A extends any[], C>(
+    fn: (...a: A) => any,
+    fnName: string,
+    circuitFor: (ctx: C) => Circuit,
+    onOpen?: Handler<any, CircuitOpenError, A, C>,
+) {
+    // async functions are known up front, other promise-returning functions after their first call
+    let returnsPromise = BAKUtilsIsAsyncFunction(fn);
+    return function (this: C, ...args: A): any {
+        const circuit = circuitFor(this);
+        if (!circuit.acquire()) {
+            const error = circuit.openError();
+            const failFast = () => {
+                if (!onOpen) throw error;
+                return onOpen(error, fnName, this, ...args);
+            };
+            return returnsPromise ? new Promise(resolve => resolve(failFast())) : failFast();
+        }
+
+        const result = createCatchLogic<never, unknown, A, C>(undefined, (err, ..._rest) => {
+            circuit.failure(err);
+            throw err;
+        }, fn, fnName, {
+            silent: true,
+            mapResult: (value) => {
+                circuit.success();
+                return value;
+            },
+        }).apply(this, args);
+        if (BAKUtilsIsThenable(result))
+            returnsPromise = true;
+        return result;
+    };
+}
+
+function circuitResolver<C>(options: CircuitBreakerOptions): (ctx: C) => Circuit {
+    if (options.perInstance && !options.key) {
+        const circuits = new WeakMap<object, Circuit>();
+        let detached: Circuit | undefined;
+        return (ctx) => {
+            if ((typeof ctx !== 'object' && typeof ctx !== 'function') || ctx === null)
+                return detached ??= new Circuit(options);
+            let circuit = circuits.get(ctx as object);
+            if (!circuit) {
+                circuit = new Circuit(options);
+                circuits.set(ctx as object, circuit);
+            }
+            return circuit;
+        };
+    }
+    const circuit = options.key ? Circuit.get(options.key, options) : new Circuit(options);
+    return () => circuit;
+}
+
+/**
+ * `@CircuitBreaker(options)` — stop calling a failing dependency for a while.
+ *
+ * After `failureThreshold` consecutive failures the circuit opens, and calls fail fast with a `CircuitOpenError`
+ * (or go to `onOpen`) until `resetTimeoutMs` elapsed. Then up to `halfOpenMax` trial calls decide whether it closes again.
+ * By default all instances share one circuit per method; use `perInstance` or `key` to change it.
+ *
+ * @example
+ * ```ts
+ * class AccountApi {
+ *   @CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 10_000, key: 'dataverse', onOpen: () => null })
+ *   async retrieve(id: string) { ... }
+ * }
+ * Circuit.get('dataverse').subscribe(({ to }) => console.info('dataverse circuit is now', to));
+ * ```
+ */
+export function CircuitBreaker<ReturnType = any, Args extends any[] = any[], Ctx = any>(
+    options: CircuitBreakerOptions<ReturnType, Args, Ctx> = {},
+) {
+    return decorateMethod((original, fnName) =>
+        guardWithCircuit<Args, Ctx>(original, fnName, circuitResolver<Ctx>(options), options.onOpen));
+}
+
+/**
+ * `circuitBreaker(fn, options)` — function wrapper variant of `@CircuitBreaker`.
+ * The circuit of the wrapper is exposed as its `circuit` property.
+ *
+ * @example
+ * ```ts
+ * const retrieve = circuitBreaker(retrieveAccount, { failureThreshold: 3 });
+ * await retrieve('42');
+ * retrieve.circuit.state; // 'closed' | 'open' | 'half-open'
+ * ```
+ */
+export function circuitBreaker<Fn extends (...args: any[]) => any>(
+    fn: Fn,
+    options: Omit<CircuitBreakerOptions<any, Parameters<Fn>, ThisParameterType<Fn>>, 'perInstance'> = {},
+): Fn & { circuit: Circuit } {
+    const circuit = options.key ? Circuit.get(options.key, options) : new Circuit(options);
+    const nameOfCallingFunction = fn.name || 'anonymous function';
+    const wrapped = guardWithCircuit<Parameters<Fn>, ThisParameterType<Fn>>(fn, nameOfCallingFunction, () => circuit, options.onOpen);
+    return Object.assign(wrapped, { circuit }) as unknown as Fn & { circuit: Circuit };
+}
+
+/**
+ * Wraps `fn` so async returns (Promise, Xrm PromiseLike or thenable) are raced against a deadline of `msFor(this)`.
+ * Sync returns are left untouched.
+ */
+function raceWithTimeout<R, A extends any[], C>(
+    fn: (...a: A) => any,
+    fnName: string,
+    msFor: (ctx: C) => number,
+    handler?: Handler<R, TimeoutError, A, C>,
+) {
+    return function (this: C, ...args: A): any {
+        const ctx = this;
+        const result = fn.apply(ctx, args);
+        const promise = toNativePromise(result);
+        if (!promise)
+            return result;
+
+        const ms = msFor(ctx);
+        return BAKUtilsRaceDeadline<Promise<any>>(() => promise, { timeoutMs: ms }, (err) => {
+            if (!handler)
+                return Promise.reject(err);
+            try {
+                return Promise.resolve(handler(err as TimeoutError, fnName, ctx, ...args));
+            } catch (handlerErr) {
+                return Promise.reject(handlerErr);
+            }
+        });
+    };
+}
+
+/**
+ * `@Timeout(ms, handler?)` — reject async methods (Promise, Xrm PromiseLike or thenable) that don't settle within `ms`.
+ *
+ * On expiry, the `TimeoutError` goes to `handler` (same signature as the other catchers), whose return value becomes
+ * the resolved value; without a handler, the call rejects with it. `ms` may be a callback receiving `this`,
+ * so each instance can use its own deadline. Sync methods are not affected.
+ *
+ * @example
+ * ```ts
+ * class Client {
+ *   constructor(private readonly timeoutMs: number) {}
+ *
+ *   @Timeout((self: Client) => self.timeoutMs, (e, fnName) => { console.warn(`${fnName} gave up after ${e.ms}ms`); return null; })
+ *   async retrieve(id: string) { ... }
+ * }
+ * ```
+ */
+export function Timeout<ReturnType = any, Args extends any[] = any[], Ctx = any>(
+    ms: number | ((ctx: Ctx) => number),
+    handler?: Handler<ReturnType, TimeoutError, Args, Ctx>,
+) {
+    const msFor = typeof ms === 'function' ? ms : () => ms;
+    return decorateMethod((original, fnName) => raceWithTimeout<ReturnType, Args, Ctx>(original, fnName, msFor, handler));
+}
+
+/**
+ * `withTimeout(fn, ms, handler?)` — function wrapper variant of `@Timeout`.
+ *
+ * @example
+ * ```ts
+ * const retrieve = withTimeout(retrieveAccount, 5000);
+ * await retrieve('42'); // rejects with a TimeoutError after 5s
+ * ```
+ */
+export function withTimeout<Fn extends (...args: any[]) => any, R = never>(
+    fn: Fn,
+    ms: number,
+    handler?: Handler<R, TimeoutError, Parameters<Fn>, ThisParameterType<Fn>>,
+) {
+    const nameOfCallingFunction = fn.name || 'anonymous function';
+    return raceWithTimeout<R, Parameters<Fn>, ThisParameterType<Fn>>(fn, nameOfCallingFunction, () => ms, handler) as (
+        ...a: Parameters<Fn>
+    ) => ReturnType<Fn> extends PromiseLike<infer T> ? Promise<T | R> : ReturnType<Fn>;
+}
+
+/**
+ * `@Fallback(...steps)` — when the method throws or rejects, call each alternative in turn with the same `this`
+ * and arguments, until one succeeds.
+ *
+ * A step is a method name, a function, or `{ use, on }` to only run it for some error classes;
+ * steps that don't handle the latest error are skipped. Once a fallback ran and no further step succeeds,
+ * a `FallbackError` holding every failure is thrown (or rejected); when no step handles the original error, it propagates as is.
+ *
+ * @example
+ * ```ts
+ * class AccountRepo {
+ *   @Fallback({ use: 'loadFromCache', on: [NetworkError] }, 'loadDefault')
+ *   async load(id: string) { ... }
+ *
+ *   async loadFromCache(id: string) { ... }
+ *   loadDefault(id: string) { return { id, name: 'Unknown' }; }
+ * }
+ * ```
+ */
+export function Fallback<Ctx = any>(...steps: FallbackStep<Ctx>[]) {
+    const normalized = steps.map(step => typeof step === 'object' ? step : { use: step, on: undefined });
+    return decorateMethod((original, fnName) => function (this: Ctx, ...args: any[]) {
+        const ctx = this;
+        const errors: unknown[] = [];
+
+        const attempt = (fn: (...a: any[]) => any, name: string, from: number): any =>
+            createCatchLogic<any, unknown, any[], Ctx>(undefined, (err) => {
+                errors.push(err);
+                const next = normalized.findIndex((step, i) => i >= from && isHandled(step.on as ErrFilter<unknown>, err));
+                if (next === -1) {
+                    if (errors.length === 1)
+                        throw err;
+                    throw new FallbackError({ errors, message: `${fnName} and its fallbacks failed (${errors.length} errors)`, cause: err });
+                }
+                const { use } = normalized[next];
+                const target = typeof use === 'function' ? use : (ctx as any)[use];
+                if (typeof target !== 'function')
+                    throw new TypeError(`Fallback '${String(use)}' of ${fnName} is not a method`);
+                return attempt(target, typeof use === 'function' ? use.name || 'anonymous function' : String(use), next + 1);
+            }, fn, name, { silent: true }).apply(ctx, args);
+
+        return attempt(original, fnName, 0);
+    });
+}
+
+/** A call observed by `tapCall`. */
+interface TappedCall<A extends any[], C> {
+    ctx: C;
+    args: A;
+    /** Whether the method returned a Promise, Xrm PromiseLike or thenable. */
+    kind: 'sync' | 'async';
+    /** Start time of the call, from `BAKUtilsNow`. */
+    start: number;
+}
+
+/** Callbacks of `tapCall`. */
+interface TapHooks<A extends any[], C> {
+    success?: (value: any, call: TappedCall<A, C>) => unknown;
+    failure?: (error: unknown, call: TappedCall<A, C>) => unknown;
+    settled?: (call: TappedCall<A, C>) => unknown;
+}
+
+/**
+ * Wraps `fn` so `hooks` run once each call settles, waiting for Promise, Xrm PromiseLike and thenable results.
+ * The result (or error) is passed through; for async results, hooks returning a promise are awaited before the call settles.
+ * Like a `finally` block, an error thrown by a hook replaces the outcome of the call.
+ */
+function tapCall<A extends any[], C>(fn: (...a: A) => any, hooks: TapHooks<A, C>) {
+    return function (this: C, ...args: A): any {
+        const call: TappedCall<A, C> = { ctx: this, args, kind: 'sync', start: BAKUtilsNow() };
+        let result: any;
+        try {
+            result = fn.apply(this, args);
+        } catch (err) {
+            try {
+                hooks.failure?.(err, call);
+            } finally {
+                hooks.settled?.(call);
+            }
+            throw err;
+        }
+
+        const promise = toNativePromise(result);
+        if (!promise) {
+            try {
+                hooks.success?.(result, call);
+            } finally {
+                hooks.settled?.(call);
+            }
+            return result;
+        }
+        call.kind = 'async';
+        return promise.then(
+            async (value) => {
+                try {
+                    await hooks.success?.(value, call);
+                } finally {
+                    await hooks.settled?.(call);
+                }
+                return value;
+            },
+            async (err) => {
+                try {
+                    await hooks.failure?.(err, call);
+                } finally {
+                    await hooks.settled?.(call);
+                }
+                throw err;
+            },
+        );
+    };
+}
+
+/**
+ * `@OnSuccess(hook)` — run `hook` with the value once the method returned, or once its Promise, Xrm PromiseLike or thenable resolved.
+ * The value is passed through unchanged; `hook` is not called when the method throws or rejects.
+ *
+ * Decorators apply from the bottom up: placed above a `@Catcher`, the hook also sees the values returned by its handler;
+ * placed below, only the values returned by the method itself.
+ *
+ * @example
+ * ```ts
+ * class AccountService {
+ *   @OnSuccess((account, fnName, self: AccountService, id) => self.cache.set(id, account))
+ *   async load(id: string) { ... }
+ * }
+ * ```
+ */
+export function OnSuccess<ReturnType = any, Args extends any[] = any[], Ctx = any>(
+    hook: SuccessHook<ReturnType, Args, Ctx>,
+) {
+    return decorateMethod((original, fnName) => tapCall<Args, Ctx>(original, {
+        success: (value, { ctx, args }) => hook(value, fnName, ctx, ...args),
+    }));
+}
+
+/**
+ * `@Finally(hook)` — run `hook` once the method returned or threw, or once its Promise, Xrm PromiseLike or thenable settled.
+ * The outcome of the call is passed through unchanged, unless `hook` throws.
+ *
+ * @example
+ * ```ts
+ * class Form {
+ *   @Finally((fnName, self: Form) => self.progress.close())
+ *   async save() { ... }
+ * }
+ * ```
+ */
+export function Finally<Args extends any[] = any[], Ctx = any>(
+    hook: FinallyHook<Args, Ctx>,
+) {
+    return decorateMethod((original, fnName) => tapCall<Args, Ctx>(original, {
+        settled: ({ ctx, args }) => hook(fnName, ctx, ...args),
+    }));
+}
+
+/**
+ * `@Measure(sink?)` — report the execution time of every call, until it returned or threw, or until its
+ * Promise, Xrm PromiseLike or thenable settled.
+ *
+ * Measurements go to `sink`, or to the global sink set with `setMeasureSink` (by default `console.debug`).
+ * Placed above the other decorators, the time includes their retries, fallbacks and handlers.
+ *
+ * @example
+ * ```ts
+ * class AccountService {
+ *   @Measure(({ fnName, durationMs, ok }) => metrics.record(fnName, durationMs, { ok }))
+ *   async load(id: string) { ... }
+ * }
+ * ```
+ */
+export function Measure(sink?: MeasureSink) {
+    return decorateMethod((original, fnName) => {
+        const report = ({ ctx, kind, start }: TappedCall<any[], unknown>, ok: boolean, error?: unknown) => BAKUtilsReportMeasurement({
+            fnName,
+            className: BAKUtilsClassName(ctx),
+            durationMs: BAKUtilsNow() - start,
+            ok,
+            kind,
+            ...(ok ? {} : { error }),
+        }, sink);
+
+        return tapCall<any[], unknown>(original, {
+            success: (_value, call) => report(call, true),
+            failure: (error, call) => report(call, false, error),
+        });
+    });
+}
+
+/**
+ * `@TryResult(errorCase?)` — make a method return a `Result` instead of throwing.
+ *
+ * Sync methods return `Result<T, E>`, while async and PromiseLike (including Xrm) returns become `Promise<Result<T, E>>`.
+ * Errors are mapped with `errorCase` just like in `ResultTry`.
+ *
+ * TypeScript decorators can't change the declared signature, so either declare the method with
+ * `ResultReturn` through a cast, or prefer `toResultFn` when callers need the typing.
+ *
+ * @example
+ * ```ts
+ * class Repo {
+ *   @TryResult((e) => new DBError({ cause: e }))
+ *   async load(id: string) { return db.get(id); }
+ * }
+ * const res = await (new Repo().load('42') as unknown as Promise<Result<Row, DBError>>);
+ * ```
+ */
+export function TryResult<E = Error, Args extends any[] = any[], Ctx = any>(
+    errorCase?: ErrorCase<E, (...args: Args) => any>,
+) {
+    return makeDecorator<Result<never, E>, unknown, Args, Ctx>(
+        undefined,
+        (err, _fnName, _ctx, ...args) => Err(BAKUtilsMapErrorCase(err, args, errorCase)),
+        { mapResult: (value) => Ok(value) },
+    );
+}
+
+/* -------------------------------------------------------------------------- */
+/**
+ * `toResultFn(fn, errorCase?)` — wrap a function so it returns a `Result` instead of throwing.
+ *
+ * @example
+ * ```ts
+ * const safeParse = toResultFn(JSON.parse);
+ * safeParse('{ bad'); // → Err(SyntaxError)
+ *
+ * const load = toResultFn(fetchUser, (e, id) => new NotFound({ id }));
+ * await load('42'); // → Promise<Result<User, NotFound>>
+ * ```
+ */
+export function toResultFn<Fn extends (...args: any[]) => any, E = Error>(
+    fn: Fn,
+    errorCase?: ErrorCase<E, Fn>,
+) {
+    const nameOfCallingFunction = fn.name || 'anonymous function';
+    return createCatchLogic<Result<never, E>, unknown, Parameters<Fn>, ThisParameterType<Fn>>(
+        undefined,
+        (err, _fnName, _ctx, ...args) => Err(BAKUtilsMapErrorCase(err, args, errorCase)),
+        fn,
+        nameOfCallingFunction,
+        { mapResult: (value) => Ok(value) },
+    ) as (...a: Parameters<Fn>) => ResultReturn<Fn, E>;
 }
 
 /* -------------------------------------------------------------------------- */
@@ -169,7 +996,7 @@ export function defaultCatcher<R = any, A extends any[] = any[], C = any>(
     handler: Handler<R, Error, A, C>,
 ) {
     const nameOfCallingFunction = fn.name || 'anonymous function';
-    return createCatchLogic<R, Error, A, C>(Error, handler, fn, nameOfCallingFunction) as (
+    return createCatchLogic<R, Error, A, C>(Error, handler, fn, nameOfCallingFunction, { iterators: true }) as (
         ...a: A
     ) => R | Promise<R>;
 }
@@ -198,7 +1025,7 @@ export function catcher<
     handler: Handler<ReturnType, ErrorType, Args, Ctx>,
 ) {
     const nameOfCallingFunction = fn.name || 'anonymous function';
-    return createCatchLogic<ReturnType, ErrorType, Args, Ctx>(ErrCls, handler, fn, nameOfCallingFunction) as (
+    return createCatchLogic<ReturnType, ErrorType, Args, Ctx>(ErrCls, handler, fn, nameOfCallingFunction, { iterators: true }) as (
         ...a: Args
     ) => ReturnType | Promise<ReturnType>;
 }
\ No newline at end of file
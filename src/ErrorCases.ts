@@ -0,0 +1,85 @@
+import { type ErrorCallbackObject, BAKUtilsIsXrmError } from "./Utils";
+
+/** A `[ErrorClass, mapper]` pair of an `ErrorCaseMap`. The mapper receives the matched error and the arguments of the call. */
+export type ErrorCasePair<C extends new (...args: any[]) => any = new (...args: any[]) => any, R = unknown> =
+    readonly [ErrorClass: C, mapper: (error: InstanceType<C>, ...args: any[]) => R];
+
+/**
+ * Options of an `ErrorCaseMap`, applied after none of its pairs matched.
+ */
+export interface ErrorCaseOptions<X, F> {
+    /** Maps Xrm error objects (`{ errorCode, message }`). */
+    xrm?: (error: ErrorCallbackObject, ...args: any[]) => X;
+    /** Maps every other error. When omitted, unmatched errors are rethrown. */
+    fallback?: (error: unknown, ...args: any[]) => F;
+}
+
+/**
+ * An `errorCase` that maps errors by class, created with `errorCases`.
+ *
+ * @template E - The union of the types returned by its mappers.
+ */
+export class ErrorCaseMap<E> {
+    private readonly pairs: readonly ErrorCasePair[];
+    private readonly options: ErrorCaseOptions<unknown, unknown>;
+
+    constructor(pairs: readonly ErrorCasePair[], options: ErrorCaseOptions<unknown, unknown> = {}) {
+        this.pairs = pairs;
+        this.options = options;
+    }
+
+    /**
+     * Maps `error` with the first pair whose class matches it, then the Xrm matcher, then the fallback.
+     * Rethrows `error` when none applies.
+     */
+    map(error: unknown, args: readonly unknown[] = []): E {
+        for (const [ErrorClass, mapper] of this.pairs)
+            if (error instanceof ErrorClass)
+                return mapper(error, ...args) as E;
+        const { xrm, fallback } = this.options;
+        if (xrm && BAKUtilsIsXrmError(error))
+            return xrm(error, ...args) as E;
+        if (fallback)
+            return fallback(error, ...args) as E;
+        throw error;
+    }
+}
+
+/**
+ * Creates a typed `[ErrorClass, mapper]` pair for `errorCases`, inferring the type of the matched error.
+ *
+ * @example
+ * ```ts
+ * onError(RangeError, (e) => new ValidationError({ message: e.message }));
+ * ```
+ */
+export function onError<C extends new (...args: any[]) => any, R>(
+    ErrorClass: C,
+    mapper: (error: InstanceType<C>, ...args: any[]) => R
+): ErrorCasePair<C, R> {
+    return [ErrorClass, mapper];
+}
+
+/**
+ * Creates an `errorCase` for `ResultTry` and `ResultTrySync` that maps errors by class instead of an `instanceof` ladder.
+ *
+ * The pairs are checked in order, then Xrm error objects go to `options.xrm`, and any other error goes to `options.fallback`.
+ * Without a fallback, unmatched errors are rethrown. The error type is inferred as the union of the mappers' return types.
+ *
+ * @example
+ * ```ts
+ * const res = await ResultTry(saveRecord, [record], errorCases([
+ *     onError(TypeError, (e) => new InvalidInput({ message: e.message })),
+ *     onError(RangeError, (e, record) => new OutOfRange({ field: record.field })),
+ * ], {
+ *     xrm: (e) => new XrmFailure({ code: e.errorCode }),
+ * }));
+ * //    ^? => Result<void, InvalidInput | OutOfRange | XrmFailure>, rethrowing any other error
+ * ```
+ */
+export function errorCases<P extends readonly ErrorCasePair<any, any>[], X = never, F = never>(
+    pairs: P,
+    options?: ErrorCaseOptions<X, F>
+): ErrorCaseMap<ReturnType<P[number][1]> | X | F> {
+    return new ErrorCaseMap(pairs, options);
+}
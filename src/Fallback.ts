@@ -0,0 +1,19 @@
+import { defineError } from "./TaggedError";
+
+/** An alternative of `@Fallback`: the name of a method of the same instance, or a function called with the same `this`. */
+export type FallbackTarget<Ctx = any> = string | symbol | ((this: Ctx, ...args: any[]) => any);
+
+/**
+ * A step of `@Fallback`: an alternative, optionally restricted to the error classes it handles.
+ * Xrm error objects always match.
+ */
+export type FallbackStep<Ctx = any> = FallbackTarget<Ctx> | {
+    use: FallbackTarget<Ctx>;
+    on: (new (...args: any[]) => unknown) | readonly (new (...args: any[]) => unknown)[];
+};
+
+/**
+ * Error thrown (or rejected) when the decorated method and every fallback that handled its errors failed.
+ * `errors` holds each failure in order, and `cause` is the last one.
+ */
+export class FallbackError extends defineError('FallbackError')<{ errors: unknown[] }> { }
@@ -5,14 +5,47 @@ import { ValueOrFn } from "./Utils";
 export interface BaseResultFunctor<T, E> {
     flatMap<U>(fn: (value: T) => Result<U, E>): Result<U, E>;
     flatMapAsync<U>(fn: (value: T) => Promise<Result<U, E>>): Promise<Result<U, E>>;
+    /** Transforms the error of a failed Result, leaving a successful one untouched. */
+    mapErr<F>(fn: (error: E) => F): Result<T, F>;
+    /** Returns `res` if the Result is successful, otherwise keeps the current error. */
+    and<U>(res: Result<U, E>): Result<U, E>;
+    /** Returns `res` if the Result is an error, otherwise keeps the current value. */
+    or<F>(res: Result<T, F>): Result<T, F>;
+    /** Calls `fn` with the error to recover from a failed Result, leaving a successful one untouched. */
+    orElse<F>(fn: (error: E) => Result<T, F>): Result<T, F>;
+    /** Async version of `orElse`. */
+    orElseAsync<F>(fn: (error: E) => Promise<Result<T, F>>): Promise<Result<T, F>>;
+    /** Calls `fn` with the value (if successful) for side effects, returning the same Result. */
+    inspect(fn: (value: T) => void): Result<T, E>;
+    /** Calls `fn` with the error (if failed) for side effects, returning the same Result. */
+    inspectErr(fn: (error: E) => void): Result<T, E>;
+    /** Maps the value with `fn` or the error with `defaultFn`, returning a plain value in both cases. */
+    mapOrElse<U>(defaultFn: (error: E) => U, fn: (value: T) => U): U;
+    /** Combines two successful Results into a tuple, returning the first error found otherwise. */
+    zip<U>(other: Result<U, E>): Result<[T, U], E>;
+    /**Flat the value to a single level if the value is already a Result. */
+    flatten<U, F>(this: Result<Result<U, F>, E>): Result<U, E | F>;
 }
 
 export interface LeftFunctor<T, E> extends BaseResultFunctor<T, E> {
-    map<U>(fn: (value: T) => U): Result<T, E>;
+    /** Returns the same error without calling `fn`. */
+    map<U>(fn: (value: T) => U): Result<U, E>;
+    /** Throws an error with the provided message, keeping the original error as its `cause`. */
+    expect(message: string): T;
+    /** Returns the error of the Result. */
+    expectErr(message: string): E;
+    /** Returns the error of the Result. */
+    unwrapErr(): E;
 }
 
 export interface RightFunctor<T, E> extends BaseResultFunctor<T, E> {
     map<U>(fn: (value: T) => U): Result<U, E>;
+    /** Returns the value of the Result. */
+    expect(message: string): T;
+    /** Throws an error with the provided message, keeping the value as its `cause`. */
+    expectErr(message: string): E;
+    /** Throws an error because an Ok Result does not contain an error. */
+    unwrapErr(): E;
 }
 
 export interface BaseOptionFunctor<T> {
@@ -20,4 +53,4 @@ export interface BaseOptionFunctor<T> {
     flatMapAsync<U>(fn: (value: T) => Promise<Option<U>>): Promise<Option<U>>;
     mapOr<U>(fn: (value: T) => Exclude<U, null | undefined>, defaultValue: ValueOrFn<U>): Option<U>;
     map<U>(fn: (value: T) => U): NoneType<U> | SomeType<U>;
-}
\ No newline at end of file
+}
@@ -0,0 +1,239 @@
+import type { Handler } from './Decorators';
+import { Err, type Result } from './Result';
+import { None, type NoneType } from './Option';
+import { BAKUtilsIsXrmError } from './Utils';
+import { BAKUtilsClassName } from './Observability';
+
+/** Receives the messages of the logging handlers: `'<Class>.<method> failed:'` and the error. */
+export type HandlerLogger = (message: string, error: unknown) => void;
+
+/** Message of a handler factory: a string, or a function of the error, the method name, `this` and the arguments. */
+export type HandlerMessage<E = any> = string | ((err: E, fnName: string, ctx: any, ...args: any[]) => string);
+
+/** Level of a form notification. */
+export type XrmNotificationLevel = 'ERROR' | 'WARNING' | 'INFO';
+
+/** A form notification requested by `notifyXrm`. */
+export interface XrmNotification {
+    message: string;
+    level: XrmNotificationLevel;
+    uniqueId: string;
+    error: unknown;
+    fnName: string;
+    /** `this` of the failed call, e.g. to reach a stored form context. */
+    ctx: unknown;
+}
+
+/** Shows the notifications of `notifyXrm`. */
+export type XrmNotifier = (notification: XrmNotification) => void;
+
+/**
+ * Options of `notifyXrm`.
+ *
+ * @template R - Type of the value returned by the handler.
+ */
+export interface NotifyXrmOptions<R = undefined> {
+    /** Defaults to the message of the error. */
+    message?: HandlerMessage;
+    /** Defaults to `'ERROR'`. */
+    level?: XrmNotificationLevel;
+    /** Identifies the notification, so a later one replaces it. Defaults to the method name. */
+    uniqueId?: string;
+    /** Value returned by the handler. */
+    value?: R;
+}
+
+const defaultLogger: HandlerLogger = (message, error) => console.error(message, error);
+
+const defaultNotifier: XrmNotifier = ({ message, level, uniqueId }) => {
+    const ui = (globalThis as any).Xrm?.Page?.ui;
+    if (typeof ui?.setFormNotification === 'function')
+        ui.setFormNotification(message, level, uniqueId);
+    else
+        console.warn(`[${level}] ${message}`);
+};
+
+let notifier: XrmNotifier = defaultNotifier;
+
+function failureMessage(fnName: string, ctx: unknown): string {
+    // `@CatchAll` already qualifies the method name with its class
+    const className = fnName.includes('.') ? undefined : BAKUtilsClassName(ctx);
+    return `${className && className !== 'Object' ? `${className}.` : ''}${fnName} failed:`;
+}
+
+function errorMessage(err: unknown): string {
+    return err instanceof Error || BAKUtilsIsXrmError(err) ? err.message : String(err);
+}
+
+function resolveMessage(message: HandlerMessage | undefined, fallback: string, err: unknown, fnName: string, ctx: unknown, args: any[]): string {
+    if (message === undefined)
+        return fallback;
+    return typeof message === 'function' ? message(err, fnName, ctx, ...args) : message;
+}
+
+/**
+ * Logs the error and returns `value` instead.
+ *
+ * @example
+ * ```ts
+ * @Catcher(NetworkError, logAndReturn([]))
+ * async listAccounts() { ... }
+ * ```
+ */
+export function logAndReturn<R>(value: R, logger: HandlerLogger = defaultLogger): Handler<R> {
+    return (err, fnName, ctx) => {
+        logger(failureMessage(fnName, ctx), err);
+        return value;
+    };
+}
+
+/**
+ * Logs the error and rethrows it, for catchers that should only report.
+ *
+ * @example
+ * ```ts
+ * @DefaultCatcher(logAndRethrow((message, error) => telemetry.error(message, error)))
+ * save() { ... }
+ * ```
+ */
+export function logAndRethrow(logger: HandlerLogger = defaultLogger): Handler<never> {
+    return (err, fnName, ctx) => {
+        logger(failureMessage(fnName, ctx), err);
+        throw err;
+    };
+}
+
+/**
+ * Throws an `ErrorClass` wrapping the error as its `cause`.
+ * Works with plain `Error` subclasses (`new ErrorClass(message, { cause })`) and `defineError` classes (`new ErrorClass({ message, cause })`).
+ * The message defaults to `'<Class>.<method> failed: <error message>'`.
+ *
+ * @example
+ * ```ts
+ * class SaveFailed extends defineError('SaveFailed') { }
+ *
+ * @Catcher(DBError, wrapAndThrow(SaveFailed, (e, fnName, _ctx, id) => `Cannot save ${id}: ${e.message}`))
+ * save(id: string) { ... }
+ * ```
+ */
+export function wrapAndThrow<E = any>(ErrorClass: new (...args: any[]) => Error, msg?: HandlerMessage<E>): Handler<never, E> {
+    return (err, fnName, ctx, ...args) => {
+        const message = resolveMessage(msg, `${failureMessage(fnName, ctx)} ${errorMessage(err)}`, err, fnName, ctx, args);
+        throw '_tag' in ErrorClass
+            ? new ErrorClass({ message, cause: err })
+            : new ErrorClass(message, { cause: err });
+    };
+}
+
+/**
+ * Returns `Err(error)`, or `Err(map(error))`, so the method resolves to a `Result` instead of throwing.
+ *
+ * @example
+ * ```ts
+ * @Catcher(DBError, returnErr((e) => new LoadFailed({ cause: e })))
+ * load(id: string): Result<Row, LoadFailed> { return Ok(db.get(id)); }
+ * ```
+ */
+export function returnErr<E = any, M = E>(map?: (err: E, fnName: string) => M): Handler<Result<never, M>, E> {
+    return (err, fnName) => Err(map ? map(err, fnName) : err as unknown as M);
+}
+
+/**
+ * Returns `None`, for methods returning an `Option`.
+ *
+ * @example
+ * ```ts
+ * @Catcher(NotFound, returnNone())
+ * find(id: string): Option<Account> { ... }
+ * ```
+ */
+export function returnNone(): Handler<NoneType> {
+    return () => None;
+}
+
+/**
+ * Shows the error as a form notification through the adapter set with `setXrmNotifier`, and returns `options.value`.
+ * The default adapter calls `Xrm.Page.ui.setFormNotification`, and falls back to `console.warn` outside of a form.
+ *
+ * @example
+ * ```ts
+ * @Catcher(ValidationError, notifyXrm({ level: 'WARNING', uniqueId: 'validation', value: false }))
+ * validate() { ... }
+ * ```
+ */
+export function notifyXrm<R = undefined>(options: NotifyXrmOptions<R> = {}): Handler<R> {
+    return (err, fnName, ctx, ...args) => {
+        notifier({
+            message: resolveMessage(options.message, errorMessage(err), err, fnName, ctx, args),
+            level: options.level ?? 'ERROR',
+            uniqueId: options.uniqueId ?? fnName,
+            error: err,
+            fnName,
+            ctx,
+        });
+        return options.value as R;
+    };
+}
+
+/**
+ * Sets the adapter showing the notifications of `notifyXrm` (or restores the default with `undefined`).
+ *
+ * @example
+ * ```ts
+ * setXrmNotifier(({ message, level, uniqueId, ctx }) =>
+ *     (ctx as FormScript).formContext.ui.setFormNotification(message, level, uniqueId));
+ * ```
+ */
+export function setXrmNotifier(adapter: XrmNotifier | undefined): void {
+    notifier = adapter ?? defaultNotifier;
+}
+
+/**
+ * Runs `handler` only for errors of `ErrorClass` (or one of a list of classes), and rethrows any other error.
+ * Inside `composeHandlers`, a rethrown error moves on to the next handler.
+ *
+ * @example
+ * ```ts
+ * whenError(DBError, logAndReturn(null));
+ * ```
+ */
+export function whenError<C extends new (...args: any[]) => any, R>(
+    ErrorClass: C | readonly C[],
+    handler: Handler<R, InstanceType<C>>,
+): Handler<R> {
+    const classes: readonly C[] = Array.isArray(ErrorClass) ? ErrorClass : [ErrorClass as C];
+    return (err, fnName, ctx, ...args) => {
+        if (!classes.some(Class => err instanceof Class))
+            throw err;
+        return handler(err, fnName, ctx, ...args);
+    };
+}
+
+/**
+ * Combines handlers into one: each handler runs in turn while the previous one rethrew the same error,
+ * and the first one returning a value (or throwing another error) settles the call.
+ * When every handler rethrows, the error propagates.
+ *
+ * @example
+ * ```ts
+ * @DefaultCatcher(composeHandlers(
+ *     whenError(ValidationError, notifyXrm({ level: 'WARNING' })),
+ *     whenError(DBError, wrapAndThrow(SaveFailed)),
+ *     logAndRethrow(),
+ * ))
+ * save() { ... }
+ * ```
+ */
+export function composeHandlers<H extends Handler[]>(...handlers: H): Handler<ReturnType<H[number]>> {
+    return (err, fnName, ctx, ...args) => {
+        for (const handler of handlers) {
+            try {
+                return handler(err, fnName, ctx, ...args);
+            } catch (thrown) {
+                if (thrown !== err)
+                    throw thrown;
+            }
+        }
+        throw err;
+    };
+}
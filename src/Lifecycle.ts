@@ -0,0 +1,55 @@
+/** Hook of `@OnSuccess`, called with the returned (or resolved) value, the method name, `this` and the arguments. */
+export type SuccessHook<Return = any, Args extends any[] = any[], Ctx = any> =
+    (value: Return, fnName: string, ctx: Ctx, ...args: Args) => unknown;
+
+/** Hook of `@Finally`, called with the method name, `this` and the arguments once the call settled, whatever its outcome. */
+export type FinallyHook<Args extends any[] = any[], Ctx = any> = (fnName: string, ctx: Ctx, ...args: Args) => unknown;
+
+/** Execution time of a call, reported by `@Measure`. */
+export interface Measurement {
+    /** Name of the decorated method. */
+    fnName: string;
+    /** Name of the class of `this`. */
+    className?: string;
+    /** Time in ms from the call to its (sync or async) completion. */
+    durationMs: number;
+    /** Whether the call returned (or resolved), rather than threw (or rejected). */
+    ok: boolean;
+    /** Whether the method returned a Promise, Xrm PromiseLike or thenable. */
+    kind: 'sync' | 'async';
+    /** The error, when `ok` is `false`. */
+    error?: unknown;
+}
+
+/** Receives the measurements of `@Measure`. */
+export type MeasureSink = (measurement: Measurement) => void;
+
+const defaultSink: MeasureSink = ({ className, fnName, durationMs, ok }) =>
+    console.debug(`[measure] ${className ? `${className}.` : ''}${fnName} ${ok ? 'took' : 'failed after'} ${durationMs.toFixed(1)}ms`);
+
+let sink: MeasureSink = defaultSink;
+
+/**
+ * Sets the sink receiving the measurements of every `@Measure` without a sink of its own.
+ * Pass `undefined` to restore the default, which logs with `console.debug`.
+ *
+ * @example
+ * ```ts
+ * setMeasureSink(({ className, fnName, durationMs }) => appInsights.trackMetric({ name: `${className}.${fnName}`, average: durationMs }));
+ * ```
+ */
+export function setMeasureSink(measureSink: MeasureSink | undefined): void {
+    sink = measureSink ?? defaultSink;
+}
+
+/**
+ * @internal
+ * Sends a measurement to `measureSink`, or to the global sink. Errors thrown by the sink are ignored.
+ */
+export function BAKUtilsReportMeasurement(measurement: Measurement, measureSink?: MeasureSink): void {
+    try {
+        (measureSink ?? sink)(measurement);
+    } catch {
+        // sinks must not affect the measured call
+    }
+}
@@ -1,11 +1,38 @@
 import { Result } from "./Result";
 import { Option } from "./Option";
+import type { ErrorByClass, ErrorByKey, ErrorHandlers, ErrorHandlersResult, ErrorKey } from "./TaggedError";
 
 export interface MatchResult<T, E> {
     match<R>(this: Result<T, E>, handlers: {
         Ok: (value: T) => R,
         Err: (error: E) => R
     }): R;
+    /**
+     * Exhaustively matches the error by its `_tag` (or literal `name`), returning the value when the Result is successful.
+     *
+     * A `_` fallback is required only for errors without a literal discriminant.
+     * @example
+     * ```ts
+     * const user = result.matchErr({
+     *     NotFound: (e) => guest,
+     *     Timeout: (e) => cachedUser,
+     *     Forbidden: (e) => guest,
+     * });
+     * ```
+     */
+    matchErr<H extends ErrorHandlers<Er, unknown>, Er extends E = E>(this: Result<T, Er>, handlers: H): T | ErrorHandlersResult<H>;
+    /**
+     * Recovers from the errors with the provided `_tag` (or literal `name`), or that are instances of the provided class,
+     * removing them from the error union. A class only narrows the union when it has a literal discriminant,
+     * as structurally identical error classes can't be told apart by type.
+     * @example
+     * ```ts
+     * const r = result.catchTag('Timeout', (e) => retryValue);
+     * //    ^? Result<User | typeof retryValue, NotFound | Forbidden>
+     * ```
+     */
+    catchTag<Er extends E, K extends ErrorKey<Er>, U>(this: Result<T, Er>, tag: K, fn: (error: ErrorByKey<Er, K>) => U): Result<T | U, Exclude<Er, ErrorByKey<Er, K>>>;
+    catchTag<Er extends E, C extends new (...args: any[]) => any, U>(this: Result<T, Er>, ErrorClass: C, fn: (error: Extract<Er, InstanceType<C>>) => U): Result<T | U, Exclude<Er, ErrorByClass<Er, C>>>;
 }
 
 export interface MatchOption<T> {
@@ -13,4 +40,4 @@ export interface MatchOption<T> {
         Some: (value: T) => R,
         None: () => R
     }): R;
-}
\ No newline at end of file
+}
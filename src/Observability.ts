@@ -0,0 +1,176 @@
+/**
+ * Type of a catch event:
+ * - `caught`: an error reached a catcher handler.
+ * - `recovered`: the handler returned a value, which replaced the error.
+ * - `rethrown`: an error left a catcher, because no handler matched it or because the handler threw.
+ * - `resultErr`: `ResultTry` (or `ResultTrySync`) returned an `Err`.
+ */
+export type CatchEventType = 'caught' | 'recovered' | 'rethrown' | 'resultErr';
+
+/** Structured event emitted by the catchers and `ResultTry`. */
+export interface CatchEvent {
+    type: CatchEventType;
+    /** Name of the decorated method or wrapped function. */
+    fnName: string;
+    /** Name of the class of `this`, when called as a method. */
+    className?: string;
+    /** Arguments of the call, after redaction (see `setArgsRedactor`). */
+    args: unknown[];
+    /** Time in ms from the start of the call to the event. */
+    durationMs: number;
+    /** Whether the error was thrown synchronously or rejected by an async result. */
+    kind: 'sync' | 'async';
+    /** The error: caught, rethrown, or the one held by the `Err`. */
+    error: unknown;
+    /** For `recovered` events, the value returned by the handler. */
+    value?: unknown;
+}
+
+export type CatchListener = (event: CatchEvent) => void;
+/** Restricts the events a listener receives. */
+export type CatchEventFilter = (event: CatchEvent) => boolean;
+/** Replaces the arguments attached to events, e.g. to mask secrets or personal data. */
+export type ArgsRedactor = (args: unknown[], event: Omit<CatchEvent, 'args'>) => unknown[];
+
+/** A group of listeners sharing a filter, which can all be removed at once. */
+export interface CatchEventScope {
+    onCaught(listener: CatchListener): () => void;
+    onRecovered(listener: CatchListener): () => void;
+    onRethrown(listener: CatchListener): () => void;
+    onResultErr(listener: CatchListener): () => void;
+    /** Removes every listener registered through this scope. */
+    dispose(): void;
+}
+
+interface Registration {
+    type: CatchEventType;
+    listener: CatchListener;
+    filter?: CatchEventFilter;
+}
+
+const registrations = new Set<Registration>();
+let redactor: ArgsRedactor | undefined;
+
+function register(type: CatchEventType, listener: CatchListener, filter?: CatchEventFilter, owned?: Set<Registration>): () => void {
+    const registration: Registration = { type, listener, filter };
+    registrations.add(registration);
+    owned?.add(registration);
+    return () => {
+        registrations.delete(registration);
+        owned?.delete(registration);
+    };
+}
+
+/**
+ * Listens to errors reaching a catcher handler, in every decorated method and wrapped function.
+ * Returns a function that removes the listener.
+ *
+ * @example
+ * ```ts
+ * onCaught(({ className, fnName, error, durationMs }) => telemetry.trackException({ error, properties: { className, fnName, durationMs } }));
+ * ```
+ */
+export function onCaught(listener: CatchListener, filter?: CatchEventFilter): () => void {
+    return register('caught', listener, filter);
+}
+
+/** Listens to handlers returning a fallback value. Returns a function that removes the listener. */
+export function onRecovered(listener: CatchListener, filter?: CatchEventFilter): () => void {
+    return register('recovered', listener, filter);
+}
+
+/** Listens to errors leaving a catcher (unmatched, or thrown by the handler). Returns a function that removes the listener. */
+export function onRethrown(listener: CatchListener, filter?: CatchEventFilter): () => void {
+    return register('rethrown', listener, filter);
+}
+
+/** Listens to `Err` results returned by `ResultTry` and `ResultTrySync`. Returns a function that removes the listener. */
+export function onResultErr(listener: CatchListener, filter?: CatchEventFilter): () => void {
+    return register('resultErr', listener, filter);
+}
+
+/**
+ * Creates a group of listeners that only receive the events matching `filter`, and can be disposed together.
+ *
+ * @example
+ * ```ts
+ * const accounts = createEventScope(e => e.className === 'AccountService');
+ * accounts.onCaught(e => console.warn(`${e.fnName} failed`, e.error));
+ * accounts.onRethrown(e => console.error(`${e.fnName} crashed`, e.error));
+ * // later
+ * accounts.dispose();
+ * ```
+ */
+export function createEventScope(filter?: CatchEventFilter): CatchEventScope {
+    const owned = new Set<Registration>();
+    return {
+        onCaught: (listener) => register('caught', listener, filter, owned),
+        onRecovered: (listener) => register('recovered', listener, filter, owned),
+        onRethrown: (listener) => register('rethrown', listener, filter, owned),
+        onResultErr: (listener) => register('resultErr', listener, filter, owned),
+        dispose: () => {
+            owned.forEach(registration => registrations.delete(registration));
+            owned.clear();
+        }
+    };
+}
+
+/**
+ * Sets the function redacting the arguments attached to every event (or removes it with `undefined`).
+ *
+ * @example
+ * ```ts
+ * setArgsRedactor((args) => args.map(arg => typeof arg === 'string' && arg.includes('@') ? '[email]' : arg));
+ * ```
+ */
+export function setArgsRedactor(redact: ArgsRedactor | undefined): void {
+    redactor = redact;
+}
+
+/**
+ * @internal
+ * Emits an event to the matching listeners. Errors thrown by the redactor, filters and listeners are ignored,
+ * so telemetry can't break the caller; when the redactor throws, the event is sent without arguments.
+ */
+export function BAKUtilsEmitCatchEvent(type: CatchEventType, event: Omit<CatchEvent, 'type'>): void {
+    if (registrations.size === 0)
+        return;
+    const base = { ...event, type };
+    let args: unknown[] = [];
+    try {
+        args = redactor ? redactor(event.args, base) : event.args;
+    } catch {
+        // never leak the arguments a failing redactor was meant to mask
+    }
+    const full: CatchEvent = { ...base, args };
+    for (const { type: listened, listener, filter } of [...registrations]) {
+        if (listened !== type)
+            continue;
+        try {
+            if (!filter || filter(full))
+                listener(full);
+        } catch {
+            // filters and listeners must not affect the observed call
+        }
+    }
+}
+
+/**
+ * @internal
+ * Current time in ms, as precise as the platform allows.
+ */
+export function BAKUtilsNow(): number {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+/**
+ * @internal
+ * Name of the class of `ctx`: the class itself for static methods, or the constructor of an instance.
+ */
+export function BAKUtilsClassName(ctx: unknown): string | undefined {
+    if (typeof ctx === 'function')
+        return ctx.name || undefined;
+    if (typeof ctx === 'object' && ctx !== null)
+        return (ctx as object).constructor?.name;
+    return undefined;
+}
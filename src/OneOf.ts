@@ -1,3 +1,5 @@
+import { type TaggedOneOf, BAKUtilsToTaggedValue } from "./Serialization";
+
 /**
  * Class representing a variant in the `OneOf` union type.
  *
@@ -98,11 +100,11 @@ export class OneOfVariant<LabelMap extends Record<string, any>, K extends keyof
     * @example
     * ```typescript
     * const variant = new OneOfVariant('Success', 'Completed');
-    * const json = variant.toJSON(); // { type: 'Success', value: 'Completed' }
+    * const json = variant.toJSON(); // { $bak: 'oneof', type: 'Success', value: 'Completed' }
     * ```
     */
-    toJSON(): { type: K; value: LabelMap[K] } {
-        return { type: this.type, value: this.value };
+    toJSON(): TaggedOneOf<K, LabelMap[K]> {
+        return { $bak: 'oneof', type: this.type, value: BAKUtilsToTaggedValue(this.value) as LabelMap[K] };
     }
     /**
     * Creates a new instance of OneOfVariant from a JSON-compatible object.
@@ -2,6 +2,7 @@ import type { BaseOptionFunctor } from "./Functor";
 import type { MatchOption } from "./Match";
 import { Err, Ok, type Result } from "./Result";
 import { type ValueOrFn, BAKUtilsGetFnValue } from "./Utils";
+import { type TaggedOption, type ReviverOptions, BAKUtilsToTaggedValue, reviveTagged } from "./Serialization";
 
 /**
  * Extracts the value type from an Option.
@@ -50,13 +51,15 @@ export type Option<T> = SomeType<T> | NoneType<T>;
      *
      ***It does not need to be called directly.**
      *
-     *It will convert the Option<T> to the value T, so it can be serialized if the value is serializable.
+     *It will convert the Option<T> to a tagged object holding the value T, so it can be rebuilt with `Option.fromJSON` or `taggedReviver`.
      */
-    toJSON(): void;
+    toJSON(): TaggedOption<T>;
     /**Creates a structured clone of the Option itself and the whole value tree. */
     clone(): this;
     /*** Returns a string representation of the Option. */
     toString(): string;
+    /** Returns the value without yielding, so `yield*` inside `Option.gen` evaluates to it. */
+    [Symbol.iterator](): Generator<NoneType, T, any>;
 }
 /**
  * Represents an Option that does not contain a value.
@@ -83,7 +86,7 @@ export interface NoneType<T = never> extends MatchOption<T>, BaseOptionFunctor<T
     /** This method is used by default on `JSON.stringify` to serialize the object.
      * It does not need to be called directly.
      */
-    toJSON(): void;
+    toJSON(): TaggedOption<T>;
     /**Flat the value to a single level if the value is already an Option. */
     flatten(): Option<RemoveOption<T>>;
     /**Cloning a None will return the same None instance. */
@@ -95,6 +98,8 @@ export interface NoneType<T = never> extends MatchOption<T>, BaseOptionFunctor<T
     * Does not return `SomeType<T>` because it is not guaranteed that the value is not null or undefined.
     */
     toSome<T2>(value: T2): Option<T2>;
+    /** Yields `None`, so `yield*` inside `Option.gen` short-circuits on it. */
+    [Symbol.iterator](): Generator<NoneType, T, any>;
 }
 
 /**
@@ -146,16 +151,19 @@ export function Some<T>(value: T extends null | undefined ? never : T): SomeType
                 throw new Error('Cannot flatten a non-option value');
         },
         match: (handlers) => handlers.Some(value),
-        toJSON: () => value,
+        toJSON: () => ({ $bak: 'option', type: 'some', value: BAKUtilsToTaggedValue(value) as T }),
         clone: () => structuredClone(this),
-        toString: () => value.toString ? value.toString() : `Some(${value})`
+        toString: () => value.toString ? value.toString() : `Some(${value})`,
+        *[Symbol.iterator]() {
+            return value;
+        }
     };
 }
 
 /**
  * Represents an empty Option with no value.
  *
- * An `None` is stringified to `null` when using `JSON.stringify`.
+ * An `None` is stringified to `{"$bak":"option","type":"none"}` when using `JSON.stringify`.
  * @returns An Option with the 'none' type.
  */
 export const None: NoneType = {
@@ -170,12 +178,16 @@ export const None: NoneType = {
     flatMapAsync: async (_fn) => None,
     okOr: (err) => Err(BAKUtilsGetFnValue(err)),
     mapOr: (_fn, defaultValue) => Option(BAKUtilsGetFnValue(defaultValue)),
-    toJSON: () => null,
+    toJSON: () => ({ $bak: 'option', type: 'none' }),
     flatten: () => None,
     match: (handlers) => handlers.None(),
     clone: () => None,
     toString: () => 'none',
-    toSome: <T2>(value: T2): Option<T2> => Option(() => value)
+    toSome: <T2>(value: T2): Option<T2> => Option(() => value),
+    *[Symbol.iterator]() {
+        yield None;
+        throw new Error('Cannot resume a None iterator');
+    }
 };
 Object.freeze(None);
 
@@ -194,4 +206,104 @@ export function Option<T>(value: ValueOrFn<T> | undefined | null): Option<T> {
         console.error(err);
         return None;
     }
-}
\ No newline at end of file
+}
+
+/** A tuple, array or record of Options, as accepted by the `Option` collection helpers. */
+export type OptionCollection = readonly Option<any>[] | [] | Record<string, Option<any>>;
+/** Maps a tuple, array or record of Options to the same shape holding their values. */
+export type OptionValues<O> = { -readonly [K in keyof O]: RemoveOption<O[K]> };
+
+/**
+ * Combines a tuple, array or record of Options into a single Option with the same shape,
+ * short-circuiting on the first `None`.
+ *
+ * @example
+ * ```ts
+ * Option.all([Some(1), Some('a')]); // Some([1, 'a'])
+ * Option.all({ id: Some(1), name: None }); // None
+ * ```
+ */
+Option.all = function <O extends OptionCollection>(options: O): Option<OptionValues<O>> {
+    const values: any = Array.isArray(options) ? [] : {};
+    for (const key of Object.keys(options)) {
+        const option: Option<unknown> = (options as any)[key];
+        if (option.isNone())
+            return None;
+        values[key] = option.unwrap();
+    }
+    return Some(values);
+};
+
+/**
+ * Returns the first Option of a tuple or array that contains a value, or `None` if none of them does.
+ *
+ * @example
+ * ```ts
+ * Option.any([None, Some(1), Some(2)]); // Some(1)
+ * ```
+ */
+Option.any = function <O extends readonly Option<any>[] | []>(options: O): Option<RemoveOption<O[number]>> {
+    for (const option of options) {
+        if (option.isSome())
+            return option;
+    }
+    return None;
+};
+
+/**
+ * Keeps only the values of the Options that contain one, discarding every `None`.
+ *
+ * @example
+ * ```ts
+ * Option.compact([Some(1), None, Some(3)]); // [1, 3]
+ * ```
+ */
+Option.compact = function <T>(options: readonly Option<T>[]): T[] {
+    const values: T[] = [];
+    for (const option of options) {
+        if (option.isSome())
+            values.push(option.value);
+    }
+    return values;
+};
+
+/**
+ * Do-notation for Options: inside the generator, `yield*` unwraps an Option or short-circuits on `None`.
+ *
+ * A `null` or `undefined` return value also results in `None`.
+ *
+ * @example
+ * ```ts
+ * const city = Option.gen(function* () {
+ *     const user = yield* findUser(id);
+ *     const address = yield* Option(user.address);
+ *     return address.city;
+ * });
+ * ```
+ */
+Option.gen = function <R>(fn: () => Generator<NoneType, R, any>): Option<R> {
+    const iterator = fn();
+    const step = iterator.next();
+    if (!step.done) {
+        iterator.return(undefined as R);
+        return None;
+    }
+    return Option<R>(() => step.value);
+};
+
+/**
+ * Rebuilds an Option from its tagged JSON form, as produced by `JSON.stringify`.
+ *
+ * Tagged values nested inside it (Options, Results, OneOfs and errors) are rebuilt as well.
+ *
+ * @example
+ * ```ts
+ * const option = Option.fromJSON<number>(JSON.parse('{"$bak":"option","type":"some","value":1}')); // Some(1)
+ * ```
+ */
+Option.fromJSON = function <T>(json: TaggedOption<unknown>, options?: ReviverOptions): Option<T> {
+    const revived = reviveTagged(json, options);
+    if (!isOption<T>(revived))
+        throw new TypeError('The provided JSON is not a tagged Option');
+    return revived;
+};
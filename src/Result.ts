@@ -1,6 +1,9 @@
 import { LeftFunctor, RightFunctor } from "./Functor";
 import { MatchResult } from "./Match";
 import { None, Option } from "./Option";
+import { errorKey, matchError } from "./TaggedError";
+import { type TaggedResult, type ReviverOptions, BAKUtilsToTaggedValue, reviveTagged } from "./Serialization";
+import { type ErrorCase, type SyncOnly, ResultTrySync } from "./ResultTry";
 
 /** Represents a failed computation.*/
 export interface Left<T, E> extends MatchResult<T, E>, LeftFunctor<T, E> {
@@ -18,8 +21,10 @@ export interface Left<T, E> extends MatchResult<T, E>, LeftFunctor<T, E> {
     isOk(this: Result<T, E>): this is Right<T, E>;
     /** Converts the Result into an Option. */
     toOption(): Option<T>;
-    toJSON(): void;
-
+    /** Serializes the Result into a tagged object, keeping the error's name, message, stack, `cause` and custom fields. */
+    toJSON(): TaggedResult<T, E>;
+    /** Yields the error, so `yield*` inside `Result.gen` short-circuits on it. */
+    [Symbol.iterator](): Generator<Result<never, E>, T, any>;
 }
 
 /** Represents a successful computation.*/
@@ -38,6 +43,10 @@ export interface Right<T, E> extends MatchResult<T, E>, RightFunctor<T, E> {
     isOk(this: Result<T, E>): this is Right<T, E>;
     /** Converts the Result into an Option. */
     toOption(): Option<T>;
+    /** Serializes the Result into a tagged object. */
+    toJSON(): TaggedResult<T, E>;
+    /** Returns the value without yielding, so `yield*` inside `Result.gen` evaluates to it. */
+    [Symbol.iterator](): Generator<Result<never, E>, T, any>;
 }
 
 /**Represents the result of a computation that can either succeed with a value of type T or fail with an error of type E.*/
@@ -58,8 +67,11 @@ export function Ok<T, E>(value?: T): Result<T, E> {
         isErr(this: Result<T, E>): this is Left<T, E> { return false; },
         isOk(this: Result<T, E>): this is Right<T, E> { return true; },
         toOption: () => Option(value),
+        toJSON: () => ({ $bak: 'result', type: 'ok', value: BAKUtilsToTaggedValue(value) as T }),
         flatMap: (fn) => fn(value as T),
         match: (handlers) => handlers.Ok(value as T),
+        matchErr: () => value as T,
+        catchTag: (() => Ok(value)) as unknown as Right<T, E>['catchTag'],
         map: <U>(fn: (value: T) => U): Result<U, E> => {
             try {
                 return Ok(fn(value as T));
@@ -68,6 +80,32 @@ export function Ok<T, E>(value?: T): Result<T, E> {
             }
         },
         flatMapAsync: async (fn) => fn(value as T),
+        mapErr: <F>(_fn: (error: E) => F) => Ok<T, F>(value),
+        and: (res) => res,
+        or: <F>(_res: Result<T, F>) => Ok<T, F>(value),
+        orElse: <F>(_fn: (error: E) => Result<T, F>) => Ok<T, F>(value),
+        orElseAsync: async <F>(_fn: (error: E) => Promise<Result<T, F>>) => Ok<T, F>(value),
+        inspect: (fn) => {
+            fn(value as T);
+            return Ok(value);
+        },
+        inspectErr: () => Ok(value),
+        mapOrElse: (_defaultFn, fn) => fn(value as T),
+        expect: () => value as T,
+        expectErr: (message: string) => { throw Object.assign(new Error(message), { cause: value }); },
+        unwrapErr: () => { throw new Error('Cannot unwrapErr an Ok Result'); },
+        zip: <U>(other: Result<U, E>) => other.isOk()
+            ? Ok<[T, U], E>([value as T, other.value])
+            : Err<[T, U], E>(other.error),
+        flatten: () => {
+            if (isResult(value))
+                return value as any;
+            else
+                throw new Error('Cannot flatten a non-result value');
+        },
+        *[Symbol.iterator]() {
+            return value as T;
+        },
     };
 }
 
@@ -86,16 +124,219 @@ export function Err<T, E>(error: E): Result<T, E> {
         isErr(this: Result<T, E>): this is Left<T, E> { return true; },
         isOk(this: Result<T, E>): this is Right<T, E> { return false; },
         toOption: () => None,
-        toJSON: () => { throw error; },
+        toJSON: () => ({ $bak: 'result', type: 'error', error: BAKUtilsToTaggedValue(error) as E }),
         flatMap: () => Err(error),
         match: (handlers) => handlers.Err(error),
-        map: <U>(_fn: (value: T) => U): Result<T, E> => {
-            return this;
-        },
+        matchErr: (handlers) => matchError(error, handlers),
+        catchTag: ((tagOrClass: unknown, fn: (error: E) => unknown) => {
+            const caught = typeof tagOrClass === 'function'
+                ? error instanceof tagOrClass
+                : errorKey(error) === tagOrClass;
+            return caught ? Ok(fn(error)) : Err(error);
+        }) as Left<T, E>['catchTag'],
+        map: <U>(_fn: (value: T) => U) => Err<U, E>(error),
         flatMapAsync: async () => Err(error),
+        mapErr: (fn) => Err(fn(error)),
+        and: <U>(_res: Result<U, E>) => Err<U, E>(error),
+        or: (res) => res,
+        orElse: (fn) => fn(error),
+        orElseAsync: async (fn) => fn(error),
+        inspect: () => Err(error),
+        inspectErr: (fn) => {
+            fn(error);
+            return Err(error);
+        },
+        mapOrElse: (defaultFn) => defaultFn(error),
+        expect: (message: string) => { throw Object.assign(new Error(message), { cause: error }); },
+        expectErr: () => error,
+        unwrapErr: () => error,
+        zip: <U>(_other: Result<U, E>) => Err<[T, U], E>(error),
+        flatten: () => Err(error),
+        *[Symbol.iterator]() {
+            yield Err<never, E>(error);
+            throw new Error('Cannot resume an Err iterator');
+        },
     };
 }
 /**Checks if the provided value is a Result.*/
 export function isResult<T, E>(result: any): result is Result<T, E> {
     return result && ((result.type === 'ok' && 'value' in result) || (result.type === 'error' && 'error' in result));
-}
\ No newline at end of file
+}
+/** A tuple, array or record of Results, as accepted by the `Result` collection helpers. */
+export type ResultCollection = readonly Result<any, any>[] | [] | Record<string, Result<any, any>>;
+/** Extracts the value type from a Result. */
+export type ResultValue<R> = R extends Result<infer T, any> ? T : never;
+/** Extracts the error type from a Result. */
+export type ResultError<R> = R extends Result<any, infer E> ? E : never;
+/** Maps a tuple, array or record of Results to the same shape holding their values. */
+export type ResultValues<R> = { -readonly [K in keyof R]: ResultValue<R[K]> };
+/** Maps a tuple, array or record of Results to the same shape holding their errors. */
+export type ResultErrors<R> = { -readonly [K in keyof R]: ResultError<R[K]> };
+/** Union of every error type in a tuple, array or record of Results. */
+export type ResultErrorUnion<R> = R extends readonly any[] ? ResultError<R[number]> : ResultError<R[keyof R]>;
+/** Values and errors of a tuple, array or record of Results, each in the same shape with the other side's slots left empty. */
+export interface SettledResults<R> {
+    oks: Partial<ResultValues<R>>;
+    errs: Partial<ResultErrors<R>>;
+}
+
+/**
+ * Static helpers to work with collections of Results.
+ */
+export const Result = {
+    /**
+     * Combines a tuple, array or record of Results into a single Result with the same shape,
+     * short-circuiting on the first error.
+     *
+     * @example
+     * ```ts
+     * Result.all([Ok(1), Ok('a')]); // Ok([1, 'a'])
+     * Result.all({ id: Ok(1), name: Err('missing') }); // Err('missing')
+     * ```
+     */
+    all<R extends ResultCollection>(results: R): Result<ResultValues<R>, ResultErrorUnion<R>> {
+        const values: any = Array.isArray(results) ? [] : {};
+        for (const key of Object.keys(results)) {
+            const result: Result<unknown, ResultErrorUnion<R>> = (results as any)[key];
+            if (result.isErr())
+                return Err(result.error);
+            values[key] = result.value;
+        }
+        return Ok(values);
+    },
+    /**
+     * Splits a tuple, array or record of Results into its values and its errors, without short-circuiting.
+     * Both keep the shape of the input: arrays keep their length with empty slots, records only hold their own keys.
+     *
+     * @example
+     * ```ts
+     * Result.allSettled([Ok(1), Err('a'), Ok(3)]);    // { oks: [1, <empty>, 3], errs: [<empty>, 'a', <empty>] }
+     * Result.allSettled({ id: Ok(1), name: Err('a') }); // { oks: { id: 1 }, errs: { name: 'a' } }
+     * ```
+     */
+    allSettled<R extends ResultCollection>(results: R): SettledResults<R> {
+        const oks: any = Array.isArray(results) ? new Array(results.length) : {};
+        const errs: any = Array.isArray(results) ? new Array(results.length) : {};
+        for (const key of Object.keys(results)) {
+            const result: Result<unknown, unknown> = (results as any)[key];
+            if (result.isOk())
+                oks[key] = result.value;
+            else
+                errs[key] = result.error;
+        }
+        return { oks, errs };
+    },
+    /**
+     * Splits an array of Results into the successful values and the errors, keeping their order.
+     *
+     * @example
+     * ```ts
+     * const { oks, errs } = Result.partition([Ok(1), Err('a'), Ok(2)]); // oks: [1, 2], errs: ['a']
+     * ```
+     */
+    partition<T, E>(results: readonly Result<T, E>[]): { oks: T[], errs: E[] } {
+        const oks: T[] = [];
+        const errs: E[] = [];
+        for (const result of results) {
+            if (result.isOk()) oks.push(result.value);
+            else errs.push(result.error);
+        }
+        return { oks, errs };
+    },
+    /**
+     * Returns the first successful Result of a tuple or array, or an `Err` with every error if none succeeded.
+     *
+     * @example
+     * ```ts
+     * Result.any([Err('a'), Ok(1), Ok(2)]); // Ok(1)
+     * Result.any([Err('a'), Err('b')]); // Err(['a', 'b'])
+     * ```
+     */
+    any<R extends readonly Result<any, any>[] | []>(results: R): Result<ResultValue<R[number]>, ResultErrors<R>> {
+        const errors: any = [];
+        for (const result of results as readonly Result<ResultValue<R[number]>, unknown>[]) {
+            if (result.isOk())
+                return Ok(result.value);
+            errors.push(result.error);
+        }
+        return Err(errors);
+    },
+    /**
+     * Do-notation for Results: inside the generator, `yield*` unwraps a Result or short-circuits on its error.
+     *
+     * The error type is inferred as the union of every error type yielded.
+     *
+     * @example
+     * ```ts
+     * const total = Result.gen(function* () {
+     *     const a = yield* parse(x); // Result<number, ParseError>
+     *     const b = yield* load(a);  // Result<number, LoadError>
+     *     return a + b;
+     * });
+     * //    ^? Result<number, ParseError | LoadError>
+     * ```
+     */
+    gen<Y extends Result<never, any>, R>(fn: () => Generator<Y, R, any>): Result<R, ResultError<Y>> {
+        const iterator = fn();
+        const step = iterator.next();
+        if (step.done)
+            return Ok(step.value);
+        iterator.return(undefined as R);
+        return step.value as Result<any, ResultError<Y>>;
+    },
+    /**
+     * Async version of `Result.gen`. Inside the async generator, use `yield* await` for pending Results.
+     *
+     * @example
+     * ```ts
+     * const user = await Result.genAsync(async function* () {
+     *     const id = yield* parseId(raw);
+     *     const user = yield* await fetchUser(id); // Promise<Result<User, HttpError>>
+     *     return user;
+     * });
+     * ```
+     */
+    async genAsync<Y extends Result<never, any>, R>(fn: () => AsyncGenerator<Y, R, any>): Promise<Result<R, ResultError<Y>>> {
+        const iterator = fn();
+        const step = await iterator.next();
+        if (step.done)
+            return Ok(step.value);
+        await iterator.return(undefined as R);
+        return step.value as Result<any, ResultError<Y>>;
+    },
+    /**
+     * Rebuilds a Result from its tagged JSON form, as produced by `JSON.stringify`.
+     *
+     * Tagged values nested inside it (Options, Results, OneOfs and errors) are rebuilt as well.
+     *
+     * @example
+     * ```ts
+     * const json = JSON.parse(JSON.stringify(Err(new NotFound('42'))));
+     * const result = Result.fromJSON<User, NotFound>(json, { errors: [NotFound] });
+     * result.unwrapErr() instanceof NotFound; // true
+     * ```
+     */
+    fromJSON<T, E>(json: TaggedResult<unknown, unknown>, options?: ReviverOptions): Result<T, E> {
+        const revived = reviveTagged(json, options);
+        if (!isResult<T, E>(revived))
+            throw new TypeError('The provided JSON is not a tagged Result');
+        return revived;
+    },
+    /**
+     * Turns a throwing synchronous function into one returning a Result, mapping thrown errors with `errorCase`
+     * (see `ResultTrySync`). Functions returning a Promise are rejected at compile time.
+     *
+     * @example
+     * ```ts
+     * const safeParse = Result.fromThrowable(JSON.parse, (e) => new SyntaxError(String(e)));
+     * safeParse('{"a":1}'); // Ok({ a: 1 })
+     * safeParse('{');       // Err(SyntaxError)
+     * ```
+     */
+    fromThrowable<Fn extends (...args: any[]) => any, E = Error>(
+        fn: Fn & SyncOnly<Fn>,
+        errorCase?: ErrorCase<E, Fn>
+    ): (...args: Parameters<Fn>) => Result<ReturnType<Fn>, E> {
+        return (...args) => ResultTrySync<Fn, E>(fn, args, errorCase);
+    }
+};
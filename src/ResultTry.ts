@@ -1,5 +1,9 @@
 import { Result, Ok, Err } from "./Result";
 import { BAKUtilsIsPromise, BAKUtilsIsThenable, BAKUtilsIsXrmPromiseLike } from './Utils';
+import { type RetryOptions, RetryError, BAKUtilsRetryDelay, BAKUtilsShouldRetry, BAKUtilsSleep } from './Retry';
+import { type ErrorCasePair, ErrorCaseMap } from './ErrorCases';
+import { BAKUtilsEmitCatchEvent, BAKUtilsNow } from './Observability';
+import { type DeadlineOptions, type TimeoutError, type AbortError, BAKUtilsRaceDeadline } from './Timeout';
 
 type AsyncRet<F extends (...args: any) => any> = F extends (...args: any[]) => Promise<infer R>
     ? R
@@ -10,10 +14,35 @@ type AsyncRet<F extends (...args: any) => any> = F extends (...args: any[]) => P
  * An error-case type which may be:
  * - A fixed error instance of type `E`
  * - A function that takes `(originalError, ...fnArgs)` and returns an `E`
+ * - An `ErrorCaseMap` mapping errors by class, created with `errorCases`
+ * - A plain list of `[ErrorClass, mapper]` pairs, used like `errorCases(pairs)`
  */
 export type ErrorCase<E, Fn extends (...args: any[]) => any> =
     | E
-    | ((error: unknown, ...args: Parameters<Fn>) => E);
+    | ((error: unknown, ...args: Parameters<Fn>) => E)
+    | ErrorCaseMap<E>
+    | readonly ErrorCasePair<any, E>[];
+
+/**
+ * The arguments of `fn`, or a function that builds them from the `AbortSignal` of the call,
+ * so `fn` can cancel its work when the call times out or is aborted.
+ */
+export type TryArgs<Fn extends (...args: any[]) => any> =
+    | Parameters<Fn>
+    | ((signal: AbortSignal) => [...Parameters<Fn>]);
+
+/**
+ * Rejects functions returning a Promise (or any PromiseLike) where only synchronous functions are supported,
+ * so they can't produce a `Result<Promise<T>, E>` by mistake.
+ */
+export type SyncOnly<Fn extends (...args: any[]) => any> = ReturnType<Fn> extends PromiseLike<any>
+    ? { readonly 'Async functions are not supported, use ResultTry instead': never }
+    : unknown;
+
+/**
+ * Options of a `ResultTry` call.
+ */
+export interface ResultTryOptions extends DeadlineOptions { }
 
 /**
  * Attempts to execute `fn(...args)`, returning a `Promise<Result<T, E>>`.
@@ -29,8 +58,12 @@ export type ErrorCase<E, Fn extends (...args: any[]) => any> =
  * @template E  - The error type (default `Error`)
  *
  * @param fn        - The function to execute (can be sync or async).
- * @param args      - The parameter tuple to call `fn` with (must match `Parameters<Fn>`).
- * @param errorCase - Either a fixed error `E` or a function `(error, ...args) => E`.
+ * @param args      - The parameter tuple to call `fn` with (must match `Parameters<Fn>`),
+ *                    or a function building it from the `AbortSignal` of the call.
+ * @param errorCase - Either a fixed error `E`, a function `(error, ...args) => E`, an `ErrorCaseMap` or a list of
+ *                    `[ErrorClass, mapper]` pairs (both reject with the original error when no case matches).
+ * @param options   - `timeoutMs` resolves to `Err(TimeoutError)` once the deadline passes,
+ *                    and `signal` resolves to `Err(AbortError)` once it fires. Neither goes through `errorCase`.
  *
  * @returns A `Promise<Result<T, E>>`, where `T` is the possibly awaited type of `fn`'s return.
  *
@@ -50,17 +83,76 @@ export type ErrorCase<E, Fn extends (...args: any[]) => any> =
  *
  * async function fetchData(id: number): Promise<string> { ... }
  * const r3 = await ResultTry(fetchData, [42]);
+ *
+ * const r4 = await ResultTry(fetch, (signal) => [url, { signal }], undefined, { timeoutMs: 5000 });
+ * //    ^? => Promise<Result<Response, Error | TimeoutError | AbortError>>
  */
-export async function ResultTry<
+export function ResultTry<
     Fn extends (...args: any[]) => any,
     E = Error
 >(
     fn: Fn,
-    args?: Parameters<Fn>,
+    args?: TryArgs<Fn>,
     errorCase?: ErrorCase<E, Fn>
+): Promise<Result<AsyncRet<Fn>, E>>;
+export function ResultTry<
+    Fn extends (...args: any[]) => any,
+    E = Error
+>(
+    fn: Fn,
+    args: TryArgs<Fn> | undefined,
+    errorCase: ErrorCase<E, Fn> | undefined,
+    options: ResultTryOptions
+): Promise<Result<AsyncRet<Fn>, E | TimeoutError | AbortError>>;
+export async function ResultTry<
+    Fn extends (...args: any[]) => any,
+    E = Error
+>(
+    fn: Fn,
+    args?: TryArgs<Fn>,
+    errorCase?: ErrorCase<E, Fn>,
+    options?: ResultTryOptions
+): Promise<Result<AsyncRet<Fn>, E | TimeoutError | AbortError>> {
+    const start = BAKUtilsNow();
+    if (!options || (options.timeoutMs === undefined && !options.signal))
+        return tryCall(fn, typeof args === 'function' ? args(new AbortController().signal) : args, errorCase, start);
+    let callArgs: Parameters<Fn> | undefined;
+    let interrupted = false;
+    return BAKUtilsRaceDeadline<Result<AsyncRet<Fn>, E | TimeoutError | AbortError>>(
+        (signal) => tryCall(fn, callArgs = typeof args === 'function' ? args(signal) : args, errorCase, start, () => interrupted),
+        options,
+        (error) => {
+            interrupted = true;
+            emitResultErr(fn, callArgs, error, 'async', start);
+            return Err(error);
+        }
+    );
+}
+
+function emitResultErr(fn: Function, args: readonly unknown[] | undefined, error: unknown, kind: 'sync' | 'async', start: number): void {
+    BAKUtilsEmitCatchEvent('resultErr', {
+        fnName: fn.name || 'anonymous function',
+        args: [...(args ?? [])],
+        durationMs: BAKUtilsNow() - start,
+        kind,
+        error
+    });
+}
+
+async function tryCall<
+    Fn extends (...args: any[]) => any,
+    E
+>(
+    fn: Fn,
+    args: Parameters<Fn> | undefined,
+    errorCase: ErrorCase<E, Fn> | undefined,
+    start: number,
+    interrupted: () => boolean = () => false
 ): Promise<Result<AsyncRet<Fn>, E>> {
+    let kind: 'sync' | 'async' = 'sync';
     try {
         const raw = fn(...(args ?? []));
+        kind = 'async';
 
         if (BAKUtilsIsPromise(raw)) {
             const v = await raw;
@@ -81,10 +173,102 @@ export async function ResultTry<
 
         return Ok<AsyncRet<Fn>, E>(raw as AsyncRet<Fn>);
     } catch (orig) {
-        const mapped =
-            typeof errorCase === 'function'
-                ? (errorCase as any)(orig, ...(args ?? []))
-                : errorCase ?? (orig as E);
-        return Err<AsyncRet<Fn>, E>(mapped);
+        // the call was abandoned after a timeout or abort, which already settled the Result
+        if (interrupted())
+            return Err<AsyncRet<Fn>, E>(orig as E);
+        const error = BAKUtilsMapErrorCase(orig, args, errorCase);
+        emitResultErr(fn, args, error, kind, start);
+        return Err<AsyncRet<Fn>, E>(error);
+    }
+}
+
+/**
+ * @internal
+ * Maps an error caught while calling `fn(...args)` with an `errorCase`, defaulting to the error itself.
+ * Rethrows the error if an `ErrorCaseMap` or a list of pairs has no matching case for it.
+ */
+export function BAKUtilsMapErrorCase<E, Fn extends (...args: any[]) => any>(orig: unknown, args?: Parameters<Fn>, errorCase?: ErrorCase<E, Fn>): E {
+    if (errorCase instanceof ErrorCaseMap)
+        return errorCase.map(orig, args);
+    if (Array.isArray(errorCase))
+        return new ErrorCaseMap<E>(errorCase as readonly ErrorCasePair[]).map(orig, args);
+    return typeof errorCase === 'function'
+        ? (errorCase as any)(orig, ...(args ?? []))
+        : (errorCase as E) ?? (orig as E);
+}
+
+/**
+ * Same as `ResultTry`, but for synchronous functions: executes `fn(...args)` and returns the `Result` directly,
+ * without wrapping it in a Promise.
+ *
+ * Functions returning a Promise are rejected at compile time (use `ResultTry` for them),
+ * and a `TypeError` is thrown if one slips through at runtime.
+ *
+ * @example
+ * ```ts
+ * const parsed = ResultTrySync(JSON.parse, [text], (e) => new SyntaxError(`Invalid JSON: ${(e as Error).message}`));
+ * //    ^? => Result<any, SyntaxError>
+ *
+ * ResultTrySync(fetchData, [42]); // Type error: async functions are not supported
+ * ```
+ */
+export function ResultTrySync<
+    Fn extends (...args: any[]) => any,
+    E = Error
+>(
+    fn: Fn & SyncOnly<Fn>,
+    args?: Parameters<Fn>,
+    errorCase?: ErrorCase<E, Fn>
+): Result<ReturnType<Fn>, E> {
+    const start = BAKUtilsNow();
+    let raw: ReturnType<Fn>;
+    try {
+        raw = fn(...(args ?? []));
+    } catch (orig) {
+        const error = BAKUtilsMapErrorCase(orig, args, errorCase);
+        emitResultErr(fn, args, error, 'sync', start);
+        return Err(error);
+    }
+    if (BAKUtilsIsThenable(raw))
+        throw new TypeError('ResultTrySync does not support functions returning a Promise, use ResultTry instead');
+    return Ok(raw);
+}
+
+/**
+ * Same as `ResultTry`, but makes up to `options.attempts` attempts, waiting between them according to the retry policy.
+ *
+ * Returns `Err` only after the last attempt fails (or once `retryOn` rejects an error), with a `RetryError`
+ * exposing the error of every attempt in `errors` and the last one as its `cause`.
+ *
+ * @example
+ * ```ts
+ * const r = await ResultTry.retry(fetchAccount, [id], {
+ *     attempts: 5,
+ *     backoff: 'exponential',
+ *     baseMs: 200,
+ *     maxMs: 5000,
+ *     jitter: true,
+ *     retryOn: [NetworkError],
+ *     onRetry: (err, attempt, delay) => console.warn(`Attempt ${attempt} failed, retrying in ${delay}ms`),
+ * });
+ * if (r.isErr()) console.error(r.error.errors);
+ * ```
+ */
+ResultTry.retry = async function <Fn extends (...args: any[]) => any>(
+    fn: Fn,
+    args?: Parameters<Fn>,
+    options: RetryOptions = {}
+): Promise<Result<AsyncRet<Fn>, RetryError>> {
+    const errors: unknown[] = [];
+    for (let attempt = 1; ; attempt++) {
+        const result = await ResultTry<Fn, unknown>(fn, args);
+        if (result.isOk())
+            return Ok(result.value);
+        errors.push(result.error);
+        if (!BAKUtilsShouldRetry(result.error, attempt, options))
+            return Err(new RetryError({ errors, attempts: attempt, message: `Failed after ${attempt} attempt(s)`, cause: result.error }));
+        const delay = BAKUtilsRetryDelay(attempt, options);
+        options.onRetry?.(result.error, attempt, delay);
+        await BAKUtilsSleep(delay);
     }
-}
\ No newline at end of file
+};
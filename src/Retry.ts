@@ -0,0 +1,78 @@
+import { defineError } from "./TaggedError";
+import { BAKUtilsIsXrmError } from "./Utils";
+
+/** How the delay between two attempts grows. A function receives the retry number (starting at 1) and returns the delay in ms. */
+export type BackoffStrategy = 'fixed' | 'linear' | 'exponential' | ((retry: number) => number);
+
+/**
+ * Options of a retry policy.
+ */
+export interface RetryOptions {
+    /** Total number of attempts, including the first one. Defaults to `3`. */
+    attempts?: number;
+    /** How the delay grows between attempts. Defaults to `'exponential'`. */
+    backoff?: BackoffStrategy;
+    /** Base delay in ms. Defaults to `100`. */
+    baseMs?: number;
+    /** Upper bound of a single delay in ms. Defaults to `30000`. */
+    maxMs?: number;
+    /**
+     * Randomizes the delays: `true` picks any delay between `0` and the computed one (full jitter),
+     * while a number between `0` and `1` randomizes only that fraction of it. Defaults to `false`.
+     */
+    jitter?: boolean | number;
+    /**
+     * Which errors are worth another attempt: a list of error classes (Xrm error objects always match),
+     * or a predicate. Defaults to every error.
+     */
+    retryOn?: (new (...args: any[]) => unknown)[] | ((error: unknown, attempt: number) => boolean);
+    /** Called before waiting for the next attempt. */
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Error returned (or thrown) when every attempt failed, exposing the error of each attempt like an `AggregateError`.
+ * Its `cause` is the error of the last attempt.
+ */
+export class RetryError<E = unknown> extends defineError('RetryError')<{ errors: E[]; attempts: number }> { }
+
+/**
+ * @internal
+ * Returns the delay before the given retry (starting at 1), applying the backoff, the upper bound and the jitter.
+ */
+export function BAKUtilsRetryDelay(retry: number, options: RetryOptions): number {
+    const { backoff = 'exponential', baseMs = 100, maxMs = 30000, jitter = false } = options;
+    const raw = typeof backoff === 'function'
+        ? backoff(retry)
+        : backoff === 'linear'
+            ? baseMs * retry
+            : backoff === 'exponential'
+                ? baseMs * 2 ** (retry - 1)
+                : baseMs;
+    const delay = Math.max(0, Math.min(raw, maxMs));
+    const ratio = jitter === true ? 1 : Math.min(Math.max(Number(jitter) || 0, 0), 1);
+    return delay - delay * ratio * Math.random();
+}
+
+/**
+ * @internal
+ * Checks if another attempt should be made after `error`, given the attempt that just failed (starting at 1).
+ */
+export function BAKUtilsShouldRetry(error: unknown, attempt: number, options: RetryOptions): boolean {
+    if (attempt >= (options.attempts ?? 3))
+        return false;
+    const { retryOn } = options;
+    if (!retryOn)
+        return true;
+    if (typeof retryOn === 'function')
+        return retryOn(error, attempt);
+    return BAKUtilsIsXrmError(error) || retryOn.some(ErrorClass => error instanceof ErrorClass);
+}
+
+/**
+ * @internal
+ * Resolves after `ms` milliseconds.
+ */
+export function BAKUtilsSleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
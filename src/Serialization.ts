@@ -0,0 +1,159 @@
+import { None, Some } from "./Option";
+import { Err, Ok } from "./Result";
+import { OneOfVariant } from "./OneOf";
+
+/** Wire format of a serialized `Option`. */
+export type TaggedOption<T = unknown> =
+    | { $bak: 'option'; type: 'some'; value: T }
+    | { $bak: 'option'; type: 'none' };
+
+/** Wire format of a serialized `Result`. */
+export type TaggedResult<T = unknown, E = unknown> =
+    | { $bak: 'result'; type: 'ok'; value: T }
+    | { $bak: 'result'; type: 'error'; error: E };
+
+/** Wire format of a serialized `OneOf` variant. */
+export interface TaggedOneOf<K = PropertyKey, V = unknown> {
+    $bak: 'oneof';
+    type: K;
+    value: V;
+}
+
+/** Wire format of a serialized `Error`, keeping its custom fields. */
+export interface TaggedError {
+    $bak: 'error';
+    name: string;
+    message: string;
+    stack?: string;
+    cause?: unknown;
+    [field: string]: unknown;
+}
+
+/** Options used when rebuilding tagged values. */
+export interface ReviverOptions {
+    /**
+     * Error classes used to rebuild serialized errors, matched by their `name` or, for `defineError` classes, their `_tag`.
+     *
+     * Errors without a matching class are rebuilt from the built-in error constructors, falling back to `Error`.
+     */
+    errors?: (new (...args: any[]) => Error)[];
+}
+
+const BUILT_IN_ERRORS = [Error, TypeError, RangeError, SyntaxError, ReferenceError, EvalError, URIError];
+
+/**
+ * Serializes an `Error` into a JSON-compatible object, keeping its name, message, stack, `cause` and custom fields.
+ *
+ * @example
+ * ```ts
+ * class NotFound extends Error { constructor(public id: string) { super('not found'); this.name = 'NotFound'; } }
+ * serializeError(new NotFound('42'));
+ * // { $bak: 'error', name: 'NotFound', message: 'not found', stack: '...', id: '42' }
+ * ```
+ */
+export function serializeError(error: Error): TaggedError {
+    return serializeErrorOnce(error, new Set());
+}
+
+/** Serializes `error`, leaving out the `cause` and fields pointing back to an error already in `seen`. */
+function serializeErrorOnce(error: Error, seen: Set<Error>): TaggedError {
+    seen.add(error);
+    const json: TaggedError = { $bak: 'error', name: error.name, message: error.message };
+    if (error.stack !== undefined)
+        json.stack = error.stack;
+    const fields: [string, unknown][] = [['cause', (error as { cause?: unknown }).cause], ...Object.entries(error)];
+    for (const [field, value] of fields) {
+        if (field in json || value === undefined || seen.has(value as Error))
+            continue;
+        json[field] = value instanceof Error ? serializeErrorOnce(value, seen) : value;
+    }
+    return json;
+}
+
+/**
+ * Rebuilds an `Error` from its serialized form, using a matching class from `errors` when available.
+ *
+ * The rebuilt error keeps `instanceof` checks working for the matched class, without calling its constructor.
+ */
+export function deserializeError(json: TaggedError, errors: ReviverOptions['errors'] = []): Error {
+    const { $bak: _tag, name, message, stack, cause, ...fields } = json;
+    const ErrorClass = [...errors, ...BUILT_IN_ERRORS]
+        .find(cls => cls.name === name || cls.prototype.name === name || (cls as { _tag?: unknown })._tag === name) ?? Error;
+    const error: Error = Object.create(ErrorClass.prototype);
+    const hidden = (value: unknown) => ({ value, writable: true, configurable: true, enumerable: false });
+    Object.defineProperty(error, 'message', hidden(message));
+    if (stack !== undefined)
+        Object.defineProperty(error, 'stack', hidden(stack));
+    if (cause !== undefined)
+        Object.defineProperty(error, 'cause', hidden(cause));
+    if (error.name !== name)
+        (error as { name: string }).name = name;
+    return Object.assign(error, fields);
+}
+
+/**
+ * Creates a `JSON.parse` reviver that rebuilds tagged `Option`, `Result`, `OneOf` and `Error` values.
+ *
+ * @example
+ * ```ts
+ * const reviver = createReviver({ errors: [NotFound] });
+ * const result = JSON.parse(JSON.stringify(Err(new NotFound('42'))), reviver);
+ * result.unwrapErr() instanceof NotFound; // true
+ * ```
+ */
+export function createReviver(options: ReviverOptions = {}) {
+    return function (_key: string, value: unknown): unknown {
+        return reviveTaggedValue(value, options);
+    };
+}
+
+/**
+ * `JSON.parse` reviver that rebuilds tagged `Option`, `Result`, `OneOf` and `Error` values.
+ *
+ * @example
+ * ```ts
+ * const option: Option<number> = JSON.parse(JSON.stringify(Some(1)), taggedReviver);
+ * ```
+ */
+export const taggedReviver = createReviver();
+
+/**
+ * Walks an already parsed JSON value (without a reviver) and rebuilds every tagged value in it.
+ */
+export function reviveTagged(json: unknown, options: ReviverOptions = {}): unknown {
+    if (Array.isArray(json))
+        return json.map(item => reviveTagged(item, options));
+    if (json && typeof json === 'object' && Object.getPrototypeOf(json) === Object.prototype) {
+        const walked: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(json))
+            walked[key] = reviveTagged(value, options);
+        return reviveTaggedValue(walked, options);
+    }
+    return json;
+}
+
+/**
+ * @internal
+ * Converts a value held by an Option or a Result into its JSON form, serializing errors on the way.
+ */
+export function BAKUtilsToTaggedValue(value: unknown): unknown {
+    return value instanceof Error ? serializeError(value) : value;
+}
+
+function reviveTaggedValue(value: any, options: ReviverOptions): unknown {
+    if (!value || typeof value !== 'object' || typeof value.$bak !== 'string')
+        return value;
+    switch (value.$bak) {
+        case 'option':
+            // JSON turns NaN and Infinity into null and drops undefined values, which leaves nothing to wrap
+            return value.type === 'some' && value.value != null ? Some(value.value) : None;
+        case 'result':
+            return value.type === 'ok' ? Ok(value.value) : Err(value.error);
+        case 'oneof':
+            return OneOfVariant.fromJSON(value);
+        case 'error':
+            return deserializeError(value, options.errors);
+        default:
+            return value;
+    }
+}
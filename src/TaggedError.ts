@@ -0,0 +1,164 @@
+/**
+ * Options accepted by every tagged error, next to its own payload fields.
+ */
+export interface TaggedErrorOptions {
+    /** The error message. Defaults to the tag. */
+    message?: string;
+    /** The underlying error that caused this one. */
+    cause?: unknown;
+}
+
+/**
+ * Any value with a literal `_tag` discriminant, such as the instances of a `defineError` class.
+ */
+export interface Tagged<Tag extends string = string> {
+    readonly _tag: Tag;
+}
+
+/**
+ * An instance of a class created by `defineError`.
+ *
+ * @template Tag - The literal discriminant of the error.
+ * @template Fields - The typed payload fields of the error.
+ */
+export type TaggedErrorInstance<Tag extends string, Fields extends object = {}> =
+    Error & Tagged<Tag> & { readonly cause?: unknown } & Readonly<Fields>;
+
+/**
+ * Constructor arguments of a tagged error: the payload fields (required when there is any) plus `message` and `cause`.
+ */
+export type TaggedErrorArgs<Fields extends object> = keyof Fields extends never
+    ? [fields?: TaggedErrorOptions]
+    : [fields: Fields & TaggedErrorOptions];
+
+/**
+ * The class created by `defineError`. It is generic over its payload fields, so it can be
+ * instantiated (or extended) with them: `defineError('NotFound')<{ id: string }>`.
+ */
+export interface TaggedErrorClass<Tag extends string> {
+    new <Fields extends object = {}>(...args: TaggedErrorArgs<Fields>): TaggedErrorInstance<Tag, Fields>;
+    /** The literal discriminant shared by every instance. */
+    readonly _tag: Tag;
+    readonly prototype: TaggedErrorInstance<Tag>;
+}
+
+/**
+ * Creates an `Error` subclass with a literal `_tag`, typed payload fields and `cause` support.
+ *
+ * The class works with `instanceof`, so it plugs straight into `Catcher`/`catcher` and `ResultTry`,
+ * and its `_tag` allows exhaustive handling of error unions with `matchError`.
+ *
+ * @param tag - The literal discriminant, also used as the error `name` and default `message`.
+ *
+ * @example
+ * ```ts
+ * class NotFound extends defineError('NotFound')<{ id: string }> { }
+ * const Timeout = defineError('Timeout')<{ ms: number }>;
+ *
+ * const err = new NotFound({ id: '42', message: 'User not found', cause: original });
+ * err._tag; // 'NotFound'
+ * err.id;   // '42'
+ * err instanceof Error; // true
+ * ```
+ */
+export function defineError<Tag extends string>(tag: Tag): TaggedErrorClass<Tag> {
+    class TaggedErrorBase extends Error {
+        static readonly _tag = tag;
+
+        constructor(fields: TaggedErrorOptions & Record<string, unknown> = {}) {
+            const { message, cause, ...payload } = fields;
+            super(message ?? tag);
+            Object.setPrototypeOf(this, new.target.prototype);
+            this.name = tag;
+            if (cause !== undefined)
+                Object.defineProperty(this, 'cause', { value: cause, writable: true, configurable: true, enumerable: false });
+            Object.assign(this, payload, { _tag: tag });
+        }
+    }
+    return TaggedErrorBase as unknown as TaggedErrorClass<Tag>;
+}
+
+/**
+ * Checks if the provided value carries a `_tag` discriminant, optionally a specific one.
+ *
+ * @example
+ * ```ts
+ * if (isTagged(err, 'NotFound')) console.log(err._tag);
+ * ```
+ */
+export function isTagged<Tag extends string = string>(value: unknown, tag?: Tag): value is Tagged<Tag> {
+    return !!value && typeof value === 'object' && typeof (value as Tagged)._tag === 'string'
+        && (tag === undefined || (value as Tagged)._tag === tag);
+}
+
+/**
+ * The discriminant of an error type: its literal `_tag`, or its literal `name` when it has no tag field.
+ *
+ * Errors without either (e.g. `class DBError extends Error { }`) have no key and must be handled by a `_` fallback.
+ */
+export type ErrorKey<E> = E extends Tagged<infer K>
+    ? K
+    : E extends { readonly name: infer N }
+        ? N extends string ? (string extends N ? never : N) : never
+        : never;
+
+/** Extracts the members of an error union whose discriminant is `K`. */
+export type ErrorByKey<E, K> = E extends Tagged<infer T>
+    ? (T extends K ? E : never)
+    : E extends { readonly name: K } ? E : never;
+
+/**
+ * Extracts the members of an error union sure to be instances of `C`: the ones sharing its discriminant.
+ * Errors without a literal discriminant can't be told apart structurally, so none of them is extracted.
+ */
+export type ErrorByClass<E, C extends new (...args: any[]) => any> = [ErrorKey<InstanceType<C>>] extends [never]
+    ? never
+    : ErrorByKey<E, ErrorKey<InstanceType<C>>>;
+
+/** Extracts the members of an error union that have no literal discriminant. */
+export type UnkeyedError<E> = E extends unknown ? ([ErrorKey<E>] extends [never] ? E : never) : never;
+
+/**
+ * Exhaustive handler map for an error union, keyed by each discriminant.
+ * A `_` fallback is required only when some member has no literal discriminant.
+ */
+export type ErrorHandlers<E, R> =
+    { [K in ErrorKey<E>]: (error: ErrorByKey<E, K>) => R }
+    & ([UnkeyedError<E>] extends [never] ? {} : { _: (error: UnkeyedError<E>) => R });
+
+/** The union of the return types of an error handler map. */
+export type ErrorHandlersResult<H> = { [K in keyof H]: H[K] extends (...args: any[]) => infer R ? R : never }[keyof H];
+
+/**
+ * Returns the runtime discriminant of an error: its `_tag` if it has one, otherwise its `name`.
+ */
+export function errorKey(error: unknown): string | undefined {
+    if (isTagged(error))
+        return error._tag;
+    const name = (error as { name?: unknown } | null | undefined)?.name;
+    return typeof name === 'string' ? name : undefined;
+}
+
+/**
+ * Exhaustively matches an error union by its discriminant, like `OneOfVariant.match`.
+ *
+ * Errors are keyed by their `_tag`, or by their literal `name` when they have no tag field.
+ * A missing handler is a compile-time error.
+ *
+ * @example
+ * ```ts
+ * const status = matchError(err as NotFound | Timeout | DBError, {
+ *     NotFound: (e) => 404,
+ *     Timeout: (e) => 504,
+ *     _: (e) => 500, // DBError has no literal discriminant
+ * });
+ * ```
+ */
+export function matchError<E, H extends ErrorHandlers<E, unknown>>(error: E, handlers: H): ErrorHandlersResult<H> {
+    const byKey = handlers as Record<string, ((error: E) => ErrorHandlersResult<H>) | undefined>;
+    const key = errorKey(error);
+    const handler = (key !== undefined && Object.prototype.hasOwnProperty.call(byKey, key) ? byKey[key] : undefined) ?? byKey._;
+    if (!handler)
+        throw new TypeError(`No handler found for error "${key}"`);
+    return handler(error);
+}
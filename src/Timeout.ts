@@ -0,0 +1,61 @@
+import { defineError } from "./TaggedError";
+
+/** Error returned (or thrown) when an operation does not settle before its deadline. */
+export class TimeoutError extends defineError('TimeoutError')<{ ms: number }> { }
+
+/** Error returned (or thrown) when an operation is cancelled through an `AbortSignal`. Its `cause` is the signal's reason. */
+export class AbortError extends defineError('AbortError') { }
+
+/**
+ * Options to bound how long an operation may run.
+ */
+export interface DeadlineOptions {
+    /** Maximum time in ms before the operation is interrupted with a `TimeoutError`. */
+    timeoutMs?: number;
+    /** External signal that interrupts the operation with an `AbortError` when it fires. */
+    signal?: AbortSignal;
+}
+
+/**
+ * @internal
+ * Races `run` against the deadline and the external signal of `options`.
+ *
+ * `run` receives an `AbortSignal` that fires when the operation is interrupted, so it can cancel its own work.
+ * The timer and the listener are always cleaned up, whichever settles first.
+ *
+ * @param run - Starts the operation.
+ * @param onInterrupt - Converts the interruption error into the value to resolve with.
+ */
+export async function BAKUtilsRaceDeadline<T>(
+    run: (signal: AbortSignal) => PromiseLike<T>,
+    options: DeadlineOptions,
+    onInterrupt: (error: TimeoutError | AbortError) => T
+): Promise<T> {
+    const { timeoutMs, signal } = options;
+    const controller = new AbortController();
+    if (signal?.aborted)
+        return onInterrupt(new AbortError({ message: 'The operation was aborted', cause: signal.reason }));
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+    const interrupted = new Promise<T>(resolve => {
+        const interrupt = (error: TimeoutError | AbortError) => {
+            controller.abort(error);
+            resolve(onInterrupt(error));
+        };
+        if (timeoutMs !== undefined)
+            timer = setTimeout(() => interrupt(new TimeoutError({ ms: timeoutMs, message: `Timed out after ${timeoutMs}ms` })), timeoutMs);
+        if (signal) {
+            onAbort = () => interrupt(new AbortError({ message: 'The operation was aborted', cause: signal.reason }));
+            signal.addEventListener('abort', onAbort, { once: true });
+        }
+    });
+
+    try {
+        return await Promise.race([run(controller.signal), interrupted]);
+    } finally {
+        clearTimeout(timer);
+        if (signal && onAbort)
+            signal.removeEventListener('abort', onAbort);
+    }
+}
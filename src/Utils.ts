@@ -13,6 +13,18 @@ export function BAKUtilsIsXrmPromiseLike<T = any>(
     return BAKUtilsIsThenable(o) && typeof (o as any).catch === 'function';
 }
 
+export function BAKUtilsIsIterator<T = any>(o: any): o is IterableIterator<T> {
+    return !!o && typeof o === 'object' && typeof o.next === 'function' && typeof o[Symbol.iterator] === 'function';
+}
+
+export function BAKUtilsIsAsyncIterator<T = any>(o: any): o is AsyncIterableIterator<T> {
+    return !!o && typeof o === 'object' && typeof o.next === 'function' && typeof o[Symbol.asyncIterator] === 'function';
+}
+
+export function BAKUtilsIsAsyncFunction(fn: any): boolean {
+    return typeof fn === 'function' && fn[Symbol.toStringTag] === 'AsyncFunction';
+}
+
 export function BAKUtilsIsFunction(fn: any): fn is Function {
     return typeof fn === 'function' || fn instanceof Function;
 }
@@ -0,0 +1,146 @@
+import { Result, Ok, Err, type ResultValues, type ResultErrorUnion } from "./Result";
+
+/** An array with at least one element. */
+export type NonEmptyArray<T> = [T, ...T[]];
+
+/**
+ * Represents the outcome of one or more independent checks.
+ *
+ * It is a plain `Result` whose error is a non-empty list of every problem found,
+ * so every `Result` method works on it, while the `Validation` helpers accumulate errors instead of short-circuiting.
+ */
+export type Validation<T, E> = Result<T, NonEmptyArray<E>>;
+
+/** A tuple, array or record of Validations, as accepted by the `Validation` helpers. */
+export type ValidationCollection = readonly Validation<any, any>[] | [] | Record<string, Validation<any, any>>;
+/** Union of every error type in a tuple, array or record of Validations. */
+export type ValidationErrorUnion<V> = ResultErrorUnion<V> extends readonly (infer E)[] ? E : never;
+/** Wraps an error into a `FieldError`, flattening errors that already are one. */
+export type FieldErrorOf<E> = E extends FieldError<infer Inner> ? FieldError<Inner> : FieldError<E>;
+
+/**
+ * An error found in a specific field, recording the path from the validated root to it.
+ *
+ * @example
+ * ```ts
+ * const err = new FieldError(['address', 'zip'], 'required');
+ * err.toString(); // 'address.zip: required'
+ * ```
+ */
+export class FieldError<E> {
+    /** The keys (and array indexes) from the validated root to the invalid field. */
+    public readonly path: (string | number)[];
+    /** The error found in the field. */
+    public readonly error: E;
+
+    constructor(path: (string | number)[], error: E) {
+        this.path = path;
+        this.error = error;
+    }
+
+    /** Returns a copy of the error with `key` prepended to its path. */
+    prefix(key: string | number): FieldError<E> {
+        return new FieldError([key, ...this.path], this.error);
+    }
+
+    toString(): string {
+        return `${this.path.join('.')}: ${this.error}`;
+    }
+}
+
+/**
+ * Static helpers to build and combine Validations.
+ */
+export const Validation = {
+    /** Creates a successful Validation. */
+    ok<T, E = never>(value: T): Validation<T, E> {
+        return Ok(value);
+    },
+    /** Creates a failed Validation with one or more errors. */
+    fail<T = never, E = unknown>(error: E, ...errors: E[]): Validation<T, E> {
+        return Err([error, ...errors]);
+    },
+    /** Converts a `Result` into a Validation with a single error. */
+    fromResult<T, E>(result: Result<T, E>): Validation<T, E> {
+        return result.mapErr<NonEmptyArray<E>>(error => [error]);
+    },
+    /**
+     * Converts a Validation back into a `Result`, optionally merging its errors into a single one.
+     *
+     * @example
+     * ```ts
+     * Validation.toResult(v, errors => new AggregateError(errors, 'Invalid form'));
+     * ```
+     */
+    toResult<T, E, F = NonEmptyArray<E>>(
+        validation: Validation<T, E>,
+        merge?: (errors: NonEmptyArray<E>) => F
+    ): Result<T, F> {
+        return validation.mapErr(errors => merge ? merge(errors) : errors as unknown as F);
+    },
+    /**
+     * Runs every check against the same value, collecting the errors of all the failed ones.
+     *
+     * @example
+     * ```ts
+     * const password = Validation.validateAll(input, [
+     *     (s) => s.length >= 8 ? Ok(s) : Err('too short'),
+     *     (s) => /\d/.test(s) ? Ok(s) : Err('needs a digit'),
+     * ]);
+     * // Err(['too short', 'needs a digit'])
+     * ```
+     */
+    validateAll<T, E>(value: T, checks: readonly ((value: T) => Result<unknown, E>)[]): Validation<T, E> {
+        const errors: E[] = [];
+        for (const check of checks) {
+            const result = check(value);
+            if (result.isErr())
+                errors.push(result.error);
+        }
+        return errors.length > 0 ? Err(errors as NonEmptyArray<E>) : Ok(value);
+    },
+    /**
+     * Combines a tuple, array or record of independent Validations into one with the same shape,
+     * accumulating the errors of every failed one.
+     *
+     * @example
+     * ```ts
+     * Validation.all([Validation.fail('a'), Validation.ok(1), Validation.fail('b')]); // Err(['a', 'b'])
+     * ```
+     */
+    all<V extends ValidationCollection>(validations: V): Validation<ResultValues<V>, ValidationErrorUnion<V>> {
+        const values: any = Array.isArray(validations) ? [] : {};
+        const errors: ValidationErrorUnion<V>[] = [];
+        for (const key of Object.keys(validations)) {
+            const validation: Validation<unknown, ValidationErrorUnion<V>> = (validations as any)[key];
+            if (validation.isErr())
+                errors.push(...validation.error);
+            else
+                values[key] = validation.value;
+        }
+        return errors.length > 0 ? Err(errors as NonEmptyArray<ValidationErrorUnion<V>>) : Ok(values);
+    },
+    /**
+     * Same as `all`, but every error is wrapped into a `FieldError` recording its field path.
+     * Nested `fields` calls prefix the paths of their errors, so each error points to its leaf field.
+     *
+     * @example
+     * ```ts
+     * const user = Validation.fields({
+     *     name: validateName(input.name),
+     *     address: Validation.fields({ zip: validateZip(input.address.zip) }),
+     * });
+     * // Err([FieldError(['address', 'zip'], 'invalid zip')])
+     * ```
+     */
+    fields<V extends ValidationCollection>(validations: V): Validation<ResultValues<V>, FieldErrorOf<ValidationErrorUnion<V>>> {
+        const prefixed: any = Array.isArray(validations) ? [] : {};
+        for (const key of Object.keys(validations)) {
+            const field = Array.isArray(validations) ? Number(key) : key;
+            const validation: Validation<unknown, unknown> = (validations as any)[key];
+            prefixed[key] = validation.mapErr(errors => errors.map(error =>
+                error instanceof FieldError ? error.prefix(field) : new FieldError([field], error)));
+        }
+        return Validation.all(prefixed) as Validation<ResultValues<V>, FieldErrorOf<ValidationErrorUnion<V>>>;
+    }
+};
@@ -5,4 +5,18 @@ export * from './Utils';
 export * from './Functor';
 export * from './Match';
 export * from './OneOf';
-export * from './ResultTry';
\ No newline at end of file
+export * from './ResultTry';
+export * from './AsyncResult';
+export * from './AsyncOption';
+export * from './Serialization';
+export * from './TaggedError';
+export * from './Validation';
+export * from './Decoder';
+export * from './Retry';
+export * from './Timeout';
+export * from './ErrorCases';
+export * from './CircuitBreaker';
+export * from './Fallback';
+export * from './Observability';
+export * from './Lifecycle';
+export * from './Handlers';
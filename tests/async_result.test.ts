@@ -0,0 +1,144 @@
+import { AsyncResult, AsyncOption, Ok, Err, Some, None, Option, Result, ResultTry, onResultErr } from "../src";
+
+class HttpError extends Error { }
+class ParseError extends Error { }
+
+const fetchText = async (ok: boolean): Promise<string> => {
+    if (!ok) throw new HttpError('offline');
+    return '{"id": 7}';
+};
+
+const parse = (txt: string): Result<{ id: number }, ParseError> => {
+    try {
+        return Ok(JSON.parse(txt));
+    } catch (e) {
+        return Err(new ParseError((e as Error).message));
+    }
+};
+
+describe("AsyncResult", () => {
+
+    it('Should chain a whole fetch, parse and validate pipeline in one expression', async () => {
+        const id = await AsyncResult.try(fetchText, [true])
+            .flatMap(parse)
+            .flatMap(async json => json.id > 0 ? Ok<number, RangeError>(json.id) : Err<number, RangeError>(new RangeError('id')))
+            .map(v => v * 2)
+            .unwrapOr(0);
+        expect(id).toBe(14);
+    });
+
+    it('Should short-circuit on the first error and keep it', async () => {
+        const parser = jest.fn(parse);
+        const res = await AsyncResult.try(fetchText, [false]).flatMap(parser);
+        expect(parser).not.toHaveBeenCalled();
+        expect(res.isErr()).toBe(true);
+        expect(res.unwrapErr()).toBeInstanceOf(HttpError);
+    });
+
+    it('Should be built from a Promise, rejection included', async () => {
+        const ok = await AsyncResult.fromPromise(Promise.resolve(1)).map(v => v + 1);
+        expect(ok.unwrap()).toBe(2);
+
+        const err = await AsyncResult.fromPromise(Promise.reject(new Error('x')), () => 'mapped');
+        expect(err.unwrapErr()).toBe('mapped');
+    });
+
+    it('Should be built from Result.flatMapAsync and from ResultTry', async () => {
+        const fromFlat = AsyncResult.from(Ok<number, string>(1).flatMapAsync(async v => Ok(v + 1)));
+        await expect(fromFlat.unwrap()).resolves.toBe(2);
+
+        const fromTry = AsyncResult.from(ResultTry(JSON.parse, ['{bad']));
+        await expect(fromTry.isErr()).resolves.toBe(true);
+    });
+
+    it('Should map with async functions and catch rejections', async () => {
+        const mapped = await AsyncResult.from(Ok<number, Error>(2)).map(async v => v * 3);
+        expect(mapped.unwrap()).toBe(6);
+
+        const events: string[] = [];
+        const off = onResultErr(e => events.push(e.fnName));
+        try {
+            const failed = await AsyncResult.from(Ok<number, Error>(2)).map(async () => { throw new Error('nope'); });
+            expect(failed.isErr()).toBe(true);
+            const thrown = await AsyncResult.from(Ok<number, Error>(2)).map((): number => { throw new Error('sync nope'); });
+            expect(thrown.unwrapErr().message).toBe('sync nope');
+        } finally {
+            off();
+        }
+        expect(events).toEqual([]);
+    });
+
+    it('Should transform and recover errors', async () => {
+        const base = AsyncResult.try(fetchText, [false]);
+        const message = await base.mapErr(e => e.message).match({ Ok: () => '', Err: e => e });
+        expect(message).toBe('offline');
+
+        const recovered = await base.orElse(() => Ok('{}')).unwrap();
+        expect(recovered).toBe('{}');
+    });
+
+    it('Should turn throws in any combinator into an Err instead of rejecting', async () => {
+        const boom = new Error('boom');
+        const fail = (): never => { throw boom; };
+        const ok = AsyncResult.from(Ok<number, Error>(1));
+        const err = AsyncResult.from(Err<number, Error>(new Error('e')));
+
+        for (const chained of <PromiseLike<Result<unknown, unknown>>[]>[
+            err.mapErr(fail),
+            ok.flatMap(fail),
+            ok.flatMap(async () => fail()),
+            err.orElse(fail),
+            ok.inspect(fail),
+            err.inspectErr(fail),
+        ]) {
+            const result = await chained;
+            expect(result.isErr() && result.error).toBe(boom);
+        }
+    });
+
+    it('Should inspect both sides without changing the Result', async () => {
+        const onOk = jest.fn();
+        const onErr = jest.fn();
+        await AsyncResult.from(Ok(1)).inspect(onOk).inspectErr(onErr);
+        await AsyncResult.from(Err('e')).inspect(onOk).inspectErr(onErr);
+        expect(onOk).toHaveBeenCalledWith(1);
+        expect(onErr).toHaveBeenCalledWith('e');
+    });
+
+    it('Should reject on unwrap of an error and convert to AsyncOption', async () => {
+        await expect(AsyncResult.from(Err(new HttpError('down'))).unwrap()).rejects.toBeInstanceOf(HttpError);
+        await expect(AsyncResult.from(Err<number, string>('e')).unwrapOrElse(e => e.length)).resolves.toBe(1);
+        const opt = await AsyncResult.from(Ok(5)).toOption();
+        expect(opt.unwrap()).toBe(5);
+    });
+});
+
+describe("AsyncOption", () => {
+
+    it('Should chain over a pending Option', async () => {
+        const len = await AsyncOption.fromPromise(Promise.resolve({ name: 'John' }))
+            .map(user => user.name)
+            .flatMap(async name => Option(name.length))
+            .unwrapOr(0);
+        expect(len).toBe(4);
+    });
+
+    it('Should treat null, undefined, rejections and throwing callbacks as None', async () => {
+        await expect(AsyncOption.fromPromise(Promise.resolve(null)).isNone()).resolves.toBe(true);
+        await expect(AsyncOption.fromPromise(Promise.reject(new Error('x'))).isNone()).resolves.toBe(true);
+        await expect(AsyncOption.from(Some(1)).map(() => undefined).isNone()).resolves.toBe(true);
+        await expect(AsyncOption.from(Some(1)).flatMap((): Option<number> => { throw new Error('x'); }).isNone()).resolves.toBe(true);
+        await expect(AsyncOption.from(Some(1)).flatMap(async (): Promise<Option<number>> => { throw new Error('x'); }).isNone()).resolves.toBe(true);
+    });
+
+    it('Should be built from Option.flatMapAsync and converted to AsyncResult', async () => {
+        const opt = AsyncOption.from(Some(2).flatMapAsync(async v => Some(v * 2)));
+        await expect(opt.unwrap()).resolves.toBe(4);
+
+        const res = await AsyncOption.from(None as Option<number>).okOr('missing');
+        expect(res.unwrapErr()).toBe('missing');
+
+        const matched = await AsyncOption.from(Some('a')).match({ Some: v => v, None: () => 'none' });
+        expect(matched).toBe('a');
+    });
+});
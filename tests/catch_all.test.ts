@@ -0,0 +1,135 @@
+import { CatchAll, Catcher, CircuitBreaker, Fallback, logAndReturn, Retry, Timeout } from "../src";
+
+class DBError extends Error { }
+
+const calls: [string, unknown[]][] = [];
+
+@CatchAll((e, fnName, _ctx, ...args) => {
+    calls.push([fnName, args]);
+    return `handled ${(e as Error).message}`;
+}, { static: true, accessors: true, exclude: ['unsafe'] })
+class AccountService {
+    prefix = 'acc';
+
+    load(id: string): string {
+        if (!id) throw new Error('missing id');
+        return `${this.prefix}:${id}`;
+    }
+
+    async remove(id: string): Promise<string> {
+        throw new Error(`cannot remove ${id}`);
+    }
+
+    @Catcher(DBError, () => 'own catcher')
+    save(): string {
+        throw new DBError('db');
+    }
+
+    @Catcher(DBError, () => 'own catcher')
+    saveOther(): string {
+        throw new TypeError('not a db error');
+    }
+
+    unsafe(): string {
+        throw new Error('excluded');
+    }
+
+    get balance(): string {
+        throw new Error('no balance');
+    }
+
+    static create(): string {
+        throw new Error('static failure');
+    }
+}
+
+describe('@CatchAll', () => {
+
+    beforeEach(() => calls.length = 0);
+
+    it('Should wrap every prototype method, qualifying its name with the class', async () => {
+        const service = new AccountService();
+        expect(service.load('1')).toBe('acc:1');
+        expect(service.load('')).toBe('handled missing id');
+        await expect(service.remove('2')).resolves.toBe('handled cannot remove 2');
+        expect(calls).toEqual([
+            ['AccountService.load', ['']],
+            ['AccountService.remove', ['2']],
+        ]);
+    });
+
+    it('Should leave alone methods with their own catcher and excluded methods', () => {
+        const service = new AccountService();
+        expect(service.save()).toBe('own catcher');
+        expect(() => service.saveOther()).toThrow(TypeError);
+        expect(() => service.unsafe()).toThrow('excluded');
+        expect(calls).toHaveLength(0);
+    });
+
+    it('Should wrap static methods and getters when enabled', () => {
+        expect(AccountService.create()).toBe('handled static failure');
+        expect(new AccountService().balance).toBe('handled no balance');
+        expect(calls.map(([fnName]) => fnName)).toEqual(['AccountService.create', 'AccountService.balance']);
+    });
+
+    it('Should name the decorated class for subclasses and detached calls', () => {
+        class SavingsAccount extends AccountService { }
+        const { load } = new AccountService();
+        expect(new SavingsAccount().load('')).toBe('handled missing id');
+        expect(load('')).toBe('handled missing id');
+        expect(calls.map(([fnName]) => fnName)).toEqual(['AccountService.load', 'AccountService.load']);
+    });
+
+    it('Should pass this to the handler like the other catchers', () => {
+        const messages: string[] = [];
+        @CatchAll(logAndReturn(null, (message) => { messages.push(message); }), { static: true })
+        class Report {
+            build(): string { throw new Error('build'); }
+            static export(): string { throw new Error('export'); }
+        }
+        expect(new Report().build()).toBeNull();
+        expect(Report.export()).toBeNull();
+        expect(messages).toEqual(['Report.build failed:', 'Report.export failed:']);
+    });
+
+    it('Should leave alone methods whose catcher sits below other decorators', async () => {
+        const handled: string[] = [];
+        @CatchAll((_e, fnName) => { handled.push(fnName); return 'class handler'; })
+        class Api {
+            @Retry({ attempts: 2 })
+            @Catcher(RangeError, () => 'own')
+            retried(): string { throw new TypeError('retried'); }
+
+            @Timeout(1000)
+            @Catcher(RangeError, () => 'own')
+            async timed(): Promise<string> { throw new TypeError('timed'); }
+
+            @CircuitBreaker()
+            @Catcher(RangeError, () => 'own')
+            guarded(): string { throw new TypeError('guarded'); }
+
+            @Fallback(() => { throw new TypeError('fallback'); })
+            @Catcher(RangeError, () => 'own')
+            withFallback(): string { throw new TypeError('withFallback'); }
+        }
+
+        const api = new Api();
+        expect(() => api.retried()).toThrow('retried');
+        await expect(api.timed()).rejects.toThrow('timed');
+        expect(() => api.guarded()).toThrow('guarded');
+        expect(() => api.withFallback()).toThrow();
+        expect(handled).toEqual([]);
+    });
+
+    it('Should only wrap included prototype methods by default', () => {
+        @CatchAll(() => 'caught', { include: ['a'] })
+        class Partial {
+            a(): string { throw new Error('a'); }
+            b(): string { throw new Error('b'); }
+            static c(): string { throw new Error('c'); }
+        }
+        expect(new Partial().a()).toBe('caught');
+        expect(() => new Partial().b()).toThrow('b');
+        expect(() => Partial.c()).toThrow('c');
+    });
+});
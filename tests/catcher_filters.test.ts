@@ -0,0 +1,68 @@
+import { Catcher, catcher } from "../src";
+
+class DBError extends Error { }
+class NetworkError extends Error { }
+
+class Repo {
+    @Catcher(DBError, () => 'db fallback')
+    async query(error: unknown) {
+        throw error;
+    }
+
+    @Catcher([DBError, NetworkError], (e) => `list: ${e.constructor.name}`)
+    async fetch(error: unknown) {
+        throw error;
+    }
+
+    @Catcher(new Map([
+        [DBError, () => 'retry later'],
+        [NetworkError, () => 'offline'],
+    ]))
+    save(error: unknown) {
+        throw error;
+    }
+}
+
+describe('Catcher error-class filtering', () => {
+
+    it('Should only handle async rejections of the given class', async () => {
+        const repo = new Repo();
+        await expect(repo.query(new DBError())).resolves.toBe('db fallback');
+        const unrelated = new TypeError('bug');
+        await expect(repo.query(unrelated)).rejects.toBe(unrelated);
+    });
+
+    it('Should filter Xrm PromiseLike and thenable rejections too', async () => {
+        const reject = (error: unknown): any => ({
+            then() { return this; },
+            catch(onErr: (e: unknown) => void) { onErr(error); return this; },
+        });
+        const wrapped = catcher(reject, DBError, () => 'handled');
+        await expect(wrapped(new DBError())).resolves.toBe('handled');
+        await expect(wrapped({ errorCode: 1, message: 'xrm' })).resolves.toBe('handled');
+        await expect(wrapped(new TypeError('bug'))).rejects.toBeInstanceOf(TypeError);
+
+        const thenable = (error: unknown): PromiseLike<string> => ({ then: (_ok, bad) => bad?.(error) as any });
+        const wrappedThenable = catcher(thenable, DBError, () => 'handled');
+        await expect(wrappedThenable(new RangeError())).rejects.toBeInstanceOf(RangeError);
+    });
+
+    it('Should accept a list of error classes', async () => {
+        const repo = new Repo();
+        await expect(repo.fetch(new NetworkError())).resolves.toBe('list: NetworkError');
+        await expect(repo.fetch(new DBError())).resolves.toBe('list: DBError');
+        await expect(repo.fetch(new RangeError())).rejects.toBeInstanceOf(RangeError);
+    });
+
+    it('Should dispatch each error class to its own handler', () => {
+        const repo = new Repo();
+        expect(repo.save(new DBError())).toBe('retry later');
+        expect(repo.save(new NetworkError())).toBe('offline');
+        expect(repo.save({ errorCode: 5, message: 'xrm' })).toBe('retry later');
+        expect(() => repo.save(new SyntaxError())).toThrow(SyntaxError);
+    });
+
+    it('Should reject an empty handler Map when decorating', () => {
+        expect(() => Catcher(new Map())).toThrow('@Catcher received an empty Map');
+    });
+});
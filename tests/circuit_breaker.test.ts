@@ -0,0 +1,123 @@
+import { CircuitBreaker, circuitBreaker, Circuit, CircuitOpenError, CircuitStateChange } from "../src";
+
+class HttpError extends Error { }
+
+describe('Circuit breaker', () => {
+
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('Should open after the failure threshold and fail fast', () => {
+        const fn = jest.fn((fail: boolean) => { if (fail) throw new HttpError('down'); return 'ok'; });
+        const guarded = circuitBreaker(fn, { failureThreshold: 2, resetTimeoutMs: 1000 });
+
+        expect(() => guarded(true)).toThrow(HttpError);
+        expect(guarded.circuit.failures).toBe(1);
+        expect(() => guarded(true)).toThrow(HttpError);
+        expect(guarded.circuit.state).toBe('open');
+
+        expect(() => guarded(false)).toThrow(CircuitOpenError);
+        expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('Should move to half-open after the reset timeout and close on a successful trial', async () => {
+        const changes: CircuitStateChange[] = [];
+        let fail = true;
+        const guarded = circuitBreaker(async () => { if (fail) throw new HttpError('down'); return 'ok'; }, {
+            failureThreshold: 1,
+            resetTimeoutMs: 1000,
+            onStateChange: change => changes.push(change),
+        });
+
+        await expect(guarded()).rejects.toBeInstanceOf(HttpError);
+        const rejected = guarded();
+        await expect(rejected).rejects.toBeInstanceOf(CircuitOpenError);
+
+        jest.advanceTimersByTime(1000);
+        expect(guarded.circuit.state).toBe('half-open');
+        fail = false;
+        await expect(guarded()).resolves.toBe('ok');
+        expect(guarded.circuit.state).toBe('closed');
+        expect(changes.map(({ from, to }) => `${from}>${to}`)).toEqual(['closed>open', 'open>half-open', 'half-open>closed']);
+    });
+
+    it('Should reopen when a trial fails and limit concurrent trials', async () => {
+        let release!: (fail: boolean) => void;
+        const guarded = circuitBreaker(() => new Promise<string>((resolve, reject) =>
+            release = (fail) => fail ? reject(new HttpError('still down')) : resolve('ok')), { failureThreshold: 1, resetTimeoutMs: 100, halfOpenMax: 1 });
+
+        const first = guarded();
+        release(true);
+        await expect(first).rejects.toBeInstanceOf(HttpError);
+        jest.advanceTimersByTime(100);
+
+        const trial = guarded();
+        await expect(guarded()).rejects.toBeInstanceOf(CircuitOpenError);
+        release(true);
+        await expect(trial).rejects.toBeInstanceOf(HttpError);
+        expect(guarded.circuit.state).toBe('open');
+    });
+
+    it('Should ignore errors rejected by isFailure and route open errors to onOpen', () => {
+        class Api {
+            @CircuitBreaker({
+                failureThreshold: 1,
+                isFailure: e => e instanceof HttpError,
+                onOpen: (e, fnName, _ctx, id: string) => `${fnName}(${id}) skipped: ${e.retryAfterMs}ms`,
+            })
+            get(_id: string, error: Error): string { throw error; }
+        }
+        const api = new Api();
+        expect(() => api.get('1', new TypeError('bad input'))).toThrow(TypeError);
+        expect(() => api.get('1', new HttpError('down'))).toThrow(HttpError);
+        expect(api.get('2', new HttpError('down'))).toBe('get(2) skipped: 30000ms');
+        expect(new Api().get('3', new HttpError('down'))).toMatch('skipped');
+    });
+
+    it('Should share circuits per instance or per key', () => {
+        class PerInstance {
+            @CircuitBreaker({ failureThreshold: 1, perInstance: true })
+            run(): string { throw new HttpError('down'); }
+        }
+        const a = new PerInstance();
+        expect(() => a.run()).toThrow(HttpError);
+        expect(() => a.run()).toThrow(CircuitOpenError);
+        expect(() => new PerInstance().run()).toThrow(HttpError);
+
+        const detached = new PerInstance().run;
+        expect(() => detached()).toThrow(HttpError);
+        expect(() => detached()).toThrow(CircuitOpenError);
+
+        class Keyed {
+            @CircuitBreaker({ key: 'dataverse-test', failureThreshold: 1 })
+            run(): string { throw new HttpError('down'); }
+        }
+        const other = circuitBreaker(() => 'ok', { key: 'dataverse-test' });
+        expect(() => new Keyed().run()).toThrow(HttpError);
+        expect(Circuit.get('dataverse-test').state).toBe('open');
+        expect(() => other()).toThrow(CircuitOpenError);
+        Circuit.get('dataverse-test').reset();
+        expect(other()).toBe('ok');
+    });
+
+    it('Should reject for async methods whose shared circuit was opened elsewhere', async () => {
+        const failingAsync = circuitBreaker(async () => { throw new HttpError('down'); }, { key: 'shared', failureThreshold: 1 });
+        class Repository {
+            @CircuitBreaker({ key: 'shared' })
+            async retrieve(): Promise<string> { return 'rows'; }
+
+            @CircuitBreaker({ key: 'shared', onOpen: () => { throw new HttpError('no fallback'); } })
+            async retrieveOrFail(): Promise<string> { return 'rows'; }
+        }
+        await expect(failingAsync()).rejects.toThrow(HttpError);
+
+        const repository = new Repository();
+        const pending = repository.retrieve();
+        expect(pending).toBeInstanceOf(Promise);
+        await expect(pending).rejects.toBeInstanceOf(CircuitOpenError);
+        await expect(repository.retrieveOrFail()).rejects.toThrow('no fallback');
+
+        Circuit.get('shared').reset();
+        await expect(repository.retrieve()).resolves.toBe('rows');
+    });
+});
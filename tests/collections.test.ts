@@ -0,0 +1,74 @@
+import { Result, Ok, Err, Option, Some, None } from "../src";
+
+const parse = (txt: string): Result<number, string> =>
+    isNaN(Number(txt)) ? Err(`not a number: ${txt}`) : Ok(Number(txt));
+
+describe("Collection helpers on Result", () => {
+
+    it('Should combine a heterogeneous tuple keeping each type', () => {
+        const all = Result.all([Ok<number, string>(1), Ok<string, RangeError>('a'), Ok<boolean, string>(true)]);
+        const [n, s, b]: [number, string, boolean] = all.unwrap();
+        expect([n, s, b]).toEqual([1, 'a', true]);
+    });
+
+    it('Should short-circuit on the first error', () => {
+        const all = Result.all(['1', 'x', 'y'].map(parse));
+        expect(all.unwrapErr()).toBe('not a number: x');
+    });
+
+    it('Should combine a record of Results', () => {
+        const record = Result.all({ a: parse('1'), b: Ok<string, string>('b') });
+        const value: { a: number, b: string } = record.unwrap();
+        expect(value).toEqual({ a: 1, b: 'b' });
+        expect(Result.all({ a: parse('1'), b: parse('z') }).unwrapErr()).toBe('not a number: z');
+    });
+
+    it('Should keep both values and errors in the shape of the input with allSettled', () => {
+        const settled = Result.allSettled(['1', 'x', 'y'].map(parse));
+        expect(settled.oks).toStrictEqual([1, , ,]);
+        expect(settled.errs).toStrictEqual([, 'not a number: x', 'not a number: y']);
+        expect(Result.allSettled(['1', '2'].map(parse))).toStrictEqual({ oks: [1, 2], errs: [, ,] });
+
+        const record = Result.allSettled({ a: parse('1'), b: Ok<string, string>('b'), c: parse('z') });
+        const oks: { a?: number, b?: string, c?: number } = record.oks;
+        expect(oks).toStrictEqual({ a: 1, b: 'b' });
+        expect(record.errs).toStrictEqual({ c: 'not a number: z' });
+    });
+
+    it('Should partition into oks and errs', () => {
+        const { oks, errs } = Result.partition(['1', 'x', '2'].map(parse));
+        expect(oks).toEqual([1, 2]);
+        expect(errs).toEqual(['not a number: x']);
+    });
+
+    it('Should return the first Ok with any, or every error', () => {
+        expect(Result.any(['x', '2', '3'].map(parse)).unwrap()).toBe(2);
+        expect(Result.any(['x', 'y'].map(parse)).unwrapErr()).toEqual(['not a number: x', 'not a number: y']);
+        expect(Result.any([]).isErr()).toBe(true);
+    });
+
+    it('Should return Ok of an empty collection', () => {
+        expect(Result.all([]).unwrap()).toEqual([]);
+        expect(Result.all({}).unwrap()).toEqual({});
+    });
+});
+
+describe("Collection helpers on Option", () => {
+
+    it('Should combine tuples and records of Options', () => {
+        const [n, s]: [number, string] = Option.all([Some(1), Some('a')]).unwrap();
+        expect([n, s]).toEqual([1, 'a']);
+        expect(Option.all([Some(1), None]).isNone()).toBe(true);
+        expect(Option.all({ a: Some(1), b: Option('b') }).unwrap()).toEqual({ a: 1, b: 'b' });
+        expect(Option.all({ a: Some(1), b: Option<string>(null) }).isNone()).toBe(true);
+    });
+
+    it('Should return the first Some with any', () => {
+        expect(Option.any([None, Some(2), Some(3)]).unwrap()).toBe(2);
+        expect(Option.any([None, None]).isNone()).toBe(true);
+    });
+
+    it('Should compact an array of Options', () => {
+        expect(Option.compact([Some(1), None, Option<number>(undefined), Some(4)])).toEqual([1, 4]);
+    });
+});
@@ -0,0 +1,44 @@
+import { Catcher, DefaultCatcher, AnyErrorCatcher } from "../../src";
+
+export class ValidationError extends Error { }
+
+/** Errors seen by the handlers, as `name: message`. */
+export const caught: string[] = [];
+
+export class DecoratedSample {
+    private stored = 0;
+
+    @Catcher(ValidationError, (e, fnName) => `${fnName} caught ${e.message}`)
+    validate(value: number): string {
+        if (value < 0) throw new ValidationError('negative');
+        if (value === 0) throw new TypeError('zero');
+        return `valid ${value}`;
+    }
+
+    @DefaultCatcher((e, fnName) => `${fnName} recovered ${e.message}`)
+    async load(fail: boolean): Promise<string> {
+        if (fail) throw new Error('offline');
+        return 'loaded';
+    }
+
+    @DefaultCatcher((e, fnName) => { caught.push(`${fnName}: ${e.message}`); return -1; })
+    get value(): number {
+        if (this.stored < 0) throw new RangeError('corrupted');
+        return this.stored;
+    }
+
+    @DefaultCatcher((e, fnName) => { caught.push(`${fnName}: ${e.message}`); })
+    set next(next: number) {
+        if (next > 100) throw new RangeError('too big');
+        this.stored = next;
+    }
+
+    @AnyErrorCatcher((e, fnName) => { caught.push(`${fnName}: ${e}`); return 'fallback'; })
+    accessor label: string = 'initial';
+
+    @AnyErrorCatcher((e, fnName) => `${fnName} caught ${e}`)
+    static create(fail: boolean): string {
+        if (fail) throw 'string error';
+        return 'created';
+    }
+}
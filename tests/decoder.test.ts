@@ -0,0 +1,79 @@
+import { Decoder, DecodeError, DecodedType, Option, OneOf } from "../src";
+
+const User = Decoder.object({
+    id: Decoder.number,
+    name: Decoder.string,
+    active: Decoder.boolean,
+    role: Decoder.literal('admin', 'user'),
+    email: Decoder.optional(Decoder.string),
+    tags: Decoder.array(Decoder.string)
+});
+type User = DecodedType<typeof User>;
+
+describe("Decoder", () => {
+
+    it('Should decode a valid object and infer its static type', () => {
+        const input = { id: 1, name: 'John', active: true, role: 'admin', tags: ['a'], extra: 1 };
+        const user: User = User.decode(input).unwrap();
+        const role: 'admin' | 'user' = user.role;
+        const email: Option<string> = user.email;
+        expect(role).toBe('admin');
+        expect(email.isNone()).toBe(true);
+        expect(user).not.toHaveProperty('extra');
+        expect(User.decode({ ...input, email: 'j@x.com' }).unwrap().email.unwrap()).toBe('j@x.com');
+    });
+
+    it('Should report the path and the expected versus actual value', () => {
+        const err = User.decode({ id: 1, name: 'John', active: true, role: 'user', tags: ['a', 2] }).unwrapErr();
+        expect(err).toBeInstanceOf(DecodeError);
+        expect(err._tag).toBe('DecodeError');
+        expect(err.path).toEqual(['tags', 1]);
+        expect(err.expected).toBe('string');
+        expect(err.actual).toBe(2);
+        expect(err.message).toBe('Expected string at $.tags[1], but received 2');
+
+        expect(User.decode({ id: 1, name: 'John', active: true, role: 'root', tags: [] }).unwrapErr().expected).toBe('"admin" | "user"');
+        expect(User.decode(null).unwrapErr().expected).toBe('object');
+        expect(Decoder.number.decode(NaN).isErr()).toBe(true);
+    });
+
+    it('Should return an Err for inputs JSON can not describe', () => {
+        expect(Decoder.string.decode(BigInt(1)).unwrapErr().message).toBe('Expected string at $, but received 1n');
+        expect(Decoder.number.decode(Symbol('id')).unwrapErr().message).toBe('Expected number at $, but received Symbol(id)');
+    });
+
+    it('Should decode unions and OneOf variants', () => {
+        const id = Decoder.union(Decoder.number, Decoder.string);
+        const value: number | string = id.decode('a').unwrap();
+        expect(value).toBe('a');
+        expect(id.decode(true).unwrapErr().expected).toBe('number | string');
+
+        const labeled = Decoder.oneOf({ Numeric: Decoder.number, Slug: Decoder.string });
+        const variant: OneOf<{ Numeric: number, Slug: string }> = labeled.decode('abc').unwrap();
+        expect(variant.is('Slug')).toBe(true);
+        expect(variant.match({ Numeric: n => n * 2, Slug: s => s.length })).toBe(3);
+        expect(labeled.decode(null).isErr()).toBe(true);
+    });
+
+    it('Should refine and transform decoded values', () => {
+        const positive = Decoder.refine(Decoder.number, n => n > 0, 'positive number');
+        expect(positive.decode(1).unwrap()).toBe(1);
+        expect(positive.decode(-1).unwrapErr().expected).toBe('positive number');
+
+        const date = Decoder.transform(Decoder.string, s => {
+            const d = new Date(s);
+            if (isNaN(d.getTime())) throw new RangeError('invalid date');
+            return d;
+        });
+        expect(date.decode('2024-01-01').unwrap()).toBeInstanceOf(Date);
+        const err = date.decode('nope').unwrapErr();
+        expect(err.cause).toBeInstanceOf(RangeError);
+    });
+
+    it('Should parse and decode JSON text', () => {
+        const decoder = Decoder.json(Decoder.object({ count: Decoder.number }));
+        expect(decoder.decode('{"count": 2}').unwrap().count).toBe(2);
+        expect(decoder.decode('{bad').unwrapErr().expected).toBe('JSON string');
+        expect(decoder.decode('{"count": "2"}').unwrapErr().path).toEqual(['count']);
+    });
+});
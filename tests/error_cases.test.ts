@@ -0,0 +1,64 @@
+import { ResultTry, ResultTrySync, Result, errorCases, onError, defineError } from "../src";
+
+class InvalidInput extends defineError('InvalidInput')<{ input: string }> { }
+class OutOfRange extends defineError('OutOfRange') { }
+class XrmFailure extends defineError('XrmFailure')<{ code: number }> { }
+
+const failWith = (error: unknown) => (_input: string): number => { throw error; };
+
+const cases = errorCases([
+    onError(TypeError, (e, input: string) => new InvalidInput({ input, message: e.message })),
+    onError(RangeError, () => new OutOfRange()),
+], {
+    xrm: (e) => new XrmFailure({ code: e.errorCode }),
+});
+
+describe("ResultTry - ErrorCase maps", () => {
+
+    it('Should map errors with the first matching class, passing the call arguments', async () => {
+        const res = await ResultTry(failWith(new TypeError('bad')), ['abc'], cases);
+        const typed: Result<number, InvalidInput | OutOfRange | XrmFailure> = res;
+        const err = typed.unwrapErr();
+        expect(err).toBeInstanceOf(InvalidInput);
+        expect((err as InvalidInput).input).toBe('abc');
+
+        expect(ResultTrySync(failWith(new RangeError('big')), ['x'], cases).unwrapErr()).toBeInstanceOf(OutOfRange);
+    });
+
+    it('Should respect the order of the pairs', () => {
+        const ordered = errorCases([
+            onError(RangeError, () => 'range' as const),
+            onError(Error, () => 'error' as const),
+        ]);
+        expect(ResultTrySync(failWith(new RangeError()), [''], ordered).unwrapErr()).toBe('range');
+        expect(ResultTrySync(failWith(new SyntaxError()), [''], ordered).unwrapErr()).toBe('error');
+    });
+
+    it('Should map Xrm error objects, including async rejections', async () => {
+        const xrmReject = () => Promise.reject({ errorCode: 42, message: 'Xrm failure' });
+        const res = await ResultTry(xrmReject, [], cases);
+        expect((res.unwrapErr() as XrmFailure).code).toBe(42);
+    });
+
+    it('Should rethrow unmatched errors without a fallback', async () => {
+        const boom = new SyntaxError('unmatched');
+        await expect(ResultTry(failWith(boom), [''], cases)).rejects.toBe(boom);
+        expect(() => ResultTrySync(failWith(boom), [''], cases)).toThrow(boom);
+    });
+
+    it('Should accept a plain list of pairs', async () => {
+        const res = await ResultTry(failWith(new TypeError('bad')), ['abc'], [[TypeError, (e: TypeError, input: string) => new InvalidInput({ input, message: e.message })]]);
+        const typed: Result<number, InvalidInput> = res;
+        expect(typed.unwrapErr()).toBeInstanceOf(InvalidInput);
+        expect(typed.unwrapErr().input).toBe('abc');
+
+        const boom = new SyntaxError('unmatched');
+        expect(() => ResultTrySync(failWith(boom), [''], [onError(RangeError, () => new OutOfRange())])).toThrow(boom);
+    });
+
+    it('Should send unmatched errors to the fallback', () => {
+        const withFallback = errorCases([onError(TypeError, () => 1)], { fallback: (e) => String(e) });
+        const res: Result<number, number | string> = ResultTrySync(failWith('raw'), [''], withFallback);
+        expect(res.unwrapErr()).toBe('raw');
+    });
+});
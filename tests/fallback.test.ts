@@ -0,0 +1,76 @@
+import { Fallback, FallbackError } from "../src";
+
+class NetworkError extends Error { }
+
+class AccountRepo {
+    cache = new Map<string, string>([['1', 'cached 1']]);
+    calls: string[] = [];
+
+    @Fallback('loadFromCache', 'loadDefault')
+    async load(id: string): Promise<string> {
+        this.calls.push('load');
+        throw new NetworkError(`offline ${id}`);
+    }
+
+    async loadFromCache(id: string): Promise<string> {
+        this.calls.push('cache');
+        const value = this.cache.get(id);
+        if (!value) throw new Error(`cache miss ${id}`);
+        return value;
+    }
+
+    loadDefault(id: string): string {
+        this.calls.push('default');
+        return `default ${id}`;
+    }
+
+    @Fallback({ use: 'loadDefault', on: NetworkError })
+    filtered(_id: string, error: Error): string {
+        throw error;
+    }
+
+    @Fallback('loadFromCache', function (this: AccountRepo, id: string) {
+        this.calls.push('inline');
+        throw new Error(`inline failed ${id}`);
+    })
+    async exhausted(id: string): Promise<string> {
+        throw new NetworkError(`offline ${id}`);
+    }
+}
+
+describe('@Fallback', () => {
+
+    it('Should call each alternative in turn with the same this and arguments', async () => {
+        const repo = new AccountRepo();
+        await expect(repo.load('1')).resolves.toBe('cached 1');
+        expect(repo.calls).toEqual(['load', 'cache']);
+
+        repo.calls = [];
+        await expect(repo.load('2')).resolves.toBe('default 2');
+        expect(repo.calls).toEqual(['load', 'cache', 'default']);
+    });
+
+    it('Should only run steps that handle the error class', () => {
+        const repo = new AccountRepo();
+        expect(repo.filtered('7', new NetworkError())).toBe('default 7');
+        const bug = new TypeError('bug');
+        expect(() => repo.filtered('7', bug)).toThrow(bug);
+    });
+
+    it('Should reject with every failure once all alternatives failed', async () => {
+        const repo = new AccountRepo();
+        const err = await repo.exhausted('9').catch((e: FallbackError) => e);
+        expect(err).toBeInstanceOf(FallbackError);
+        expect((err as FallbackError).errors.map(e => (e as Error).message)).toEqual(['offline 9', 'cache miss 9', 'inline failed 9']);
+        expect((err as FallbackError).cause).toBe((err as FallbackError).errors[2]);
+        expect(repo.calls).toEqual(['cache', 'inline']);
+    });
+
+    it('Should fail loudly when a step is not a method', () => {
+        class Broken {
+            @Fallback('missing')
+            run(): string { throw new Error('primary'); }
+        }
+        expect(() => new Broken().run()).toThrow("Fallback 'missing' of run is not a method");
+    });
+});
@@ -0,0 +1,100 @@
+import { Result, Ok, Err, Option, Some, None, AsyncResult } from "../src";
+
+class ParseError extends Error { }
+class LoadError extends Error { }
+
+const parse = (txt: string): Result<number, ParseError> =>
+    isNaN(Number(txt)) ? Err(new ParseError(txt)) : Ok(Number(txt));
+const load = (id: number): Result<number, LoadError> =>
+    id > 0 ? Ok(id * 10) : Err(new LoadError(`${id}`));
+const loadAsync = async (id: number) => load(id);
+
+describe("Generator do-notation on Result", () => {
+
+    it('Should unwrap every yielded Ok', () => {
+        const res = Result.gen(function* () {
+            const a = yield* parse('2');
+            const b = yield* load(a);
+            return a + b;
+        });
+        const value: number = res.unwrap();
+        expect(value).toBe(22);
+    });
+
+    it('Should short-circuit on the first Err and infer the error union', () => {
+        const after = jest.fn();
+        const res = Result.gen(function* () {
+            const a = yield* parse('x');
+            after();
+            return yield* load(a);
+        });
+        const error: ParseError | LoadError = res.unwrapErr();
+        expect(error).toBeInstanceOf(ParseError);
+        expect(after).not.toHaveBeenCalled();
+    });
+
+    it('Should run finally blocks when short-circuiting', () => {
+        const cleanup = jest.fn();
+        Result.gen(function* () {
+            try {
+                return yield* load(0);
+            } finally {
+                cleanup();
+            }
+        });
+        expect(cleanup).toHaveBeenCalled();
+    });
+
+    it('Should support async generators with pending Results', async () => {
+        const ok = await Result.genAsync(async function* () {
+            const a = yield* parse('1');
+            const b = yield* await loadAsync(a);
+            const c = yield* AsyncResult.from(loadAsync(b));
+            return c;
+        });
+        expect(ok.unwrap()).toBe(100);
+
+        const err = await Result.genAsync(async function* () {
+            const a = yield* parse('0');
+            return yield* await loadAsync(a);
+        });
+        expect(err.unwrapErr()).toBeInstanceOf(LoadError);
+    });
+});
+
+describe("Generator do-notation on Option", () => {
+
+    const findUser = (id: number) => Option(id === 1 ? { name: 'John', address: undefined as { city: string } | undefined } : null);
+
+    it('Should unwrap every yielded Some', () => {
+        const opt = Option.gen(function* () {
+            const a = yield* Some(1);
+            const b = yield* Some(2);
+            return a + b;
+        });
+        expect(opt.unwrap()).toBe(3);
+    });
+
+    it('Should short-circuit on None', () => {
+        expect(Option.gen(function* () {
+            const user = yield* findUser(2);
+            return user.name;
+        }).isNone()).toBe(true);
+
+        expect(Option.gen(function* () {
+            const user = yield* findUser(1);
+            const address = yield* Option(user.address);
+            return address.city;
+        }).isNone()).toBe(true);
+
+        expect(Option.gen(function* () {
+            yield* None;
+            return 1;
+        }).isNone()).toBe(true);
+    });
+
+    it('Should keep Options comparable after becoming iterable', () => {
+        expect(Some(1)).not.toEqual(Some(2));
+        expect(Ok(1)).not.toEqual(Ok(2));
+    });
+});
@@ -0,0 +1,166 @@
+import {
+    Catcher, DefaultCatcher, catcher, composeHandlers, defineError, logAndRethrow, logAndReturn, None, notifyXrm,
+    returnErr, returnNone, setXrmNotifier, whenError, wrapAndThrow, type XrmNotification
+} from "../src";
+
+class DBError extends Error { }
+class ValidationError extends Error { }
+class SaveFailed extends defineError('SaveFailed') { }
+class LegacyFailure extends Error { }
+
+const thrownBy = (fn: () => unknown): any => {
+    try {
+        fn();
+    } catch (e) {
+        return e;
+    }
+    throw new Error('expected an error');
+};
+
+const logged: [string, unknown][] = [];
+const logger = (message: string, error: unknown) => { logged.push([message, error]); };
+
+class AccountService {
+    @Catcher(DBError, logAndReturn([], logger))
+    list(): string[] {
+        throw new DBError('db down');
+    }
+
+    @DefaultCatcher(logAndRethrow(logger))
+    remove(_id: string): void {
+        throw new DBError('locked');
+    }
+
+    @Catcher(DBError, wrapAndThrow(SaveFailed, (e, fnName, _ctx, id) => `${fnName}(${id}): ${e.message}`))
+    save(_id: string): void {
+        throw new DBError('constraint');
+    }
+
+    @Catcher(DBError, wrapAndThrow(LegacyFailure))
+    archive(): void {
+        throw new DBError('read only');
+    }
+
+    @Catcher(DBError, returnErr())
+    async load(_id: string): Promise<unknown> {
+        throw new DBError('timeout');
+    }
+
+    @Catcher(DBError, returnNone())
+    find(): unknown {
+        throw new DBError('missing');
+    }
+}
+
+describe('logging handlers', () => {
+    beforeEach(() => { logged.length = 0; });
+
+    it('logAndReturn logs with the class and method name and returns the value', () => {
+        expect(new AccountService().list()).toEqual([]);
+        expect(logged[0][0]).toBe('AccountService.list failed:');
+        expect(logged[0][1]).toBeInstanceOf(DBError);
+    });
+
+    it('logAndRethrow logs then rethrows the same error', () => {
+        expect(() => new AccountService().remove('1')).toThrow('locked');
+        expect(logged.map(([message]) => message)).toEqual(['AccountService.remove failed:']);
+    });
+
+    it('omits the class name for plain functions', () => {
+        const safe = catcher(function parse(_raw: string) { throw new SyntaxError('bad json'); }, SyntaxError, logAndReturn(null, logger));
+        expect(safe('{')).toBeNull();
+        expect(logged[0][0]).toBe('parse failed:');
+    });
+});
+
+describe('wrapAndThrow', () => {
+    it('wraps the error in a tagged error, keeping it as the cause', () => {
+        const e = thrownBy(() => new AccountService().save('42'));
+        expect(e).toBeInstanceOf(SaveFailed);
+        expect(e.message).toBe('save(42): constraint');
+        expect(e.cause).toBeInstanceOf(DBError);
+    });
+
+    it('wraps the error in a plain Error subclass with a default message', () => {
+        const e = thrownBy(() => new AccountService().archive());
+        expect(e).toBeInstanceOf(LegacyFailure);
+        expect(e.message).toBe('AccountService.archive failed: read only');
+        expect(e.cause).toBeInstanceOf(DBError);
+    });
+});
+
+describe('Result and Option handlers', () => {
+    it('returnErr returns the error in an Err', async () => {
+        const res = await new AccountService().load('1') as any;
+        expect(res.isErr()).toBe(true);
+        expect(res.error).toBeInstanceOf(DBError);
+    });
+
+    it('returnErr maps the error', () => {
+        const handler = returnErr((e: Error, fnName) => `${fnName}: ${e.message}`);
+        const res = handler(new Error('boom'), 'load', undefined);
+        expect(res.isErr() && res.error).toBe('load: boom');
+    });
+
+    it('returnNone returns None', () => {
+        expect(new AccountService().find()).toBe(None);
+    });
+});
+
+describe('notifyXrm', () => {
+    afterEach(() => {
+        setXrmNotifier(undefined);
+        delete (globalThis as any).Xrm;
+    });
+
+    it('sends the notification to the adapter and returns the value', () => {
+        const notifications: XrmNotification[] = [];
+        setXrmNotifier((n) => notifications.push(n));
+        const form = { name: 'account' };
+        const validate = catcher(function validate(this: typeof form) { throw new ValidationError('Name is required'); },
+            ValidationError, notifyXrm({ level: 'WARNING', uniqueId: 'validation', value: false }));
+
+        expect(validate.call(form)).toBe(false);
+        expect(notifications).toHaveLength(1);
+        expect(notifications[0]).toMatchObject({ message: 'Name is required', level: 'WARNING', uniqueId: 'validation', fnName: 'validate', ctx: form });
+    });
+
+    it('uses the form notifications of Xrm by default, with the Xrm error message', () => {
+        const setFormNotification = jest.fn();
+        (globalThis as any).Xrm = { Page: { ui: { setFormNotification } } };
+        const save = catcher(function save() { throw { errorCode: 42, message: 'Access denied' }; }, Error, notifyXrm());
+
+        expect(save()).toBeUndefined();
+        expect(setFormNotification).toHaveBeenCalledWith('Access denied', 'ERROR', 'save');
+    });
+});
+
+describe('combining handlers', () => {
+    beforeEach(() => { logged.length = 0; });
+
+    const handler = composeHandlers(
+        whenError(ValidationError, () => 'invalid'),
+        whenError([DBError], wrapAndThrow(SaveFailed, 'save failed')),
+        logAndRethrow(logger),
+    );
+
+    it('runs the first handler matching the error', () => {
+        expect(handler(new ValidationError(), 'save', undefined)).toBe('invalid');
+        expect(() => handler(new DBError(), 'save', undefined)).toThrow(SaveFailed);
+        expect(logged).toEqual([]);
+    });
+
+    it('passes rethrown errors on to the next handler, and propagates them at the end', () => {
+        const unknown = new TypeError('bug');
+        expect(() => handler(unknown, 'save', undefined)).toThrow(unknown);
+        expect(logged).toEqual([['save failed:', unknown]]);
+
+        expect(() => composeHandlers(whenError(DBError, () => 'db'))(unknown, 'save', undefined)).toThrow(unknown);
+    });
+
+    it('lets a logging handler run before a recovering one', () => {
+        const logThenNone = composeHandlers(logAndRethrow(logger), returnNone());
+        expect(logThenNone(new Error('x'), 'find', undefined)).toBe(None);
+        expect(logged).toHaveLength(1);
+    });
+});
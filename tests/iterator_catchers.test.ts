@@ -0,0 +1,209 @@
+import { AnyErrorCatcher, CatchAll, Catcher, DefaultCatcher, catcher, defaultCatcher, onCaught } from "../src";
+
+class PageError extends Error { }
+
+const collect = <T>(iterable: Iterable<T>) => [...iterable];
+const collectAsync = async <T>(iterable: AsyncIterable<T>) => {
+    const items: T[] = [];
+    for await (const item of iterable) items.push(item);
+    return items;
+};
+
+class AccountQuery {
+    closed = false;
+
+    @Catcher(PageError, (e) => `fallback: ${e.message}`)
+    *rows(failAt: number) {
+        for (let i = 1; i <= 3; i++) {
+            if (i === failAt) throw new PageError(`row ${i}`);
+            yield `row ${i}`;
+        }
+    }
+
+    @Catcher(PageError, () => undefined)
+    *rowsEndingQuietly() {
+        yield 'row 1';
+        throw new PageError('gone');
+    }
+
+    @Catcher(PageError, () => 'never')
+    *rowsWithBug() {
+        yield 'row 1';
+        throw new TypeError('bug');
+    }
+
+    @DefaultCatcher(async (e) => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        return { page: -1, error: e.message };
+    })
+    async *pages(count: number, failAt: number) {
+        for (let page = 1; page <= count; page++) {
+            await new Promise(resolve => setTimeout(resolve, 1));
+            if (page === failAt) throw new PageError(`page ${page}`);
+            yield { page };
+        }
+    }
+
+    @AnyErrorCatcher((e) => { throw new Error(`wrapped: ${e}`); })
+    async *pagesRethrowing() {
+        yield 1;
+        throw 'network';
+    }
+
+    @Catcher(PageError, () => 'fallback')
+    *tracked() {
+        try {
+            yield 1;
+            yield 2;
+        } finally {
+            this.closed = true;
+        }
+    }
+}
+
+describe('catching errors from generator methods', () => {
+
+    it('yields the handler value as the last item', () => {
+        expect(collect(new AccountQuery().rows(3))).toEqual(['row 1', 'row 2', 'fallback: row 3']);
+        expect(collect(new AccountQuery().rows(0))).toEqual(['row 1', 'row 2', 'row 3']);
+    });
+
+    it('ends the iteration when the handler returns undefined', () => {
+        expect(collect(new AccountQuery().rowsEndingQuietly())).toEqual(['row 1']);
+    });
+
+    it('rethrows unmatched errors from next()', () => {
+        const rows = new AccountQuery().rowsWithBug();
+        expect(rows.next()).toEqual({ value: 'row 1', done: false });
+        expect(() => rows.next()).toThrow(TypeError);
+    });
+
+    it('forwards values sent to next() and closes the generator on early exit', () => {
+        function* echo(): Generator<string, void, string> {
+            let received = yield 'ready';
+            while (received !== 'stop') received = yield `echo ${received}`;
+        }
+        const wrapped = catcher(echo, PageError, () => 'fallback');
+        const it = wrapped() as unknown as Generator<string, void, string>;
+        expect(it.next().value).toBe('ready');
+        expect(it.next('a').value).toBe('echo a');
+        expect(it.next('stop').done).toBe(true);
+
+        const query = new AccountQuery();
+        for (const _item of query.tracked()) break;
+        expect(query.closed).toBe(true);
+    });
+});
+
+describe('forwarding throw() and return() to the generator', () => {
+    function* resilient() {
+        try {
+            yield 'first';
+        } catch (e) {
+            yield `recovered from ${(e as Error).message}`;
+        }
+        yield 'last';
+    }
+
+    it('lets the generator catch errors sent with throw()', () => {
+        const it = defaultCatcher(resilient, () => 'handler')() as unknown as Generator<string>;
+        expect(it.next().value).toBe('first');
+        expect(it.throw(new Error('consumer'))).toEqual({ value: 'recovered from consumer', done: false });
+        expect(it.next()).toEqual({ value: 'last', done: false });
+    });
+
+    it('routes errors thrown back by throw() to the handler', () => {
+        function* fragile() {
+            yield 'first';
+            yield 'second';
+        }
+        const it = catcher(fragile, PageError, (e) => `handled ${e.message}`)() as unknown as Generator<string>;
+        it.next();
+        expect(it.throw(new PageError('consumer'))).toEqual({ value: 'handled consumer', done: false });
+        expect(it.next()).toEqual({ value: undefined, done: true });
+    });
+
+    it('keeps the value passed to return()', async () => {
+        const it = defaultCatcher(resilient, () => 'handler')() as unknown as Generator<string>;
+        it.next();
+        expect(it.return('early')).toEqual({ value: 'early', done: true });
+        expect(it.next().done).toBe(true);
+
+        const paged = defaultCatcher(async function* fetchPages() { yield 1; yield 2; }, () => 0)() as unknown as AsyncGenerator<number>;
+        await paged.next();
+        await expect(paged.return('stop')).resolves.toEqual({ value: 'stop', done: true });
+    });
+
+    it('forwards throw() to async generators', async () => {
+        async function* pages() {
+            try {
+                yield 1;
+            } catch {
+                yield -1;
+            }
+        }
+        const it = defaultCatcher(pages, () => 0)() as unknown as AsyncGenerator<number>;
+        await it.next();
+        await expect(it.throw(new Error('consumer'))).resolves.toEqual({ value: -1, done: false });
+    });
+});
+
+describe('catching errors from async generator methods', () => {
+
+    it('routes rejected next() calls to the handler and awaits its value', async () => {
+        expect(await collectAsync(new AccountQuery().pages(3, 2))).toEqual([{ page: 1 }, { page: -1, error: 'page 2' }]);
+        expect(await collectAsync(new AccountQuery().pages(2, 0))).toEqual([{ page: 1 }, { page: 2 }]);
+    });
+
+    it('rejects with the error thrown by the handler', async () => {
+        const pages = new AccountQuery().pagesRethrowing();
+        await expect(pages.next()).resolves.toEqual({ value: 1, done: false });
+        await expect(pages.next()).rejects.toThrow('wrapped: network');
+    });
+
+    it('emits catch events with the async kind', async () => {
+        const kinds: string[] = [];
+        const off = onCaught(e => kinds.push(`${e.fnName}:${e.kind}`));
+        try {
+            await collectAsync(new AccountQuery().pages(2, 1));
+            collect(new AccountQuery().rows(1));
+        } finally {
+            off();
+        }
+        expect(kinds).toEqual(['pages:async', 'rows:sync']);
+    });
+});
+
+describe('iterators in wrappers and class decorators', () => {
+
+    it('wraps iterators returned by defaultCatcher and catcher', async () => {
+        const paged = defaultCatcher(async function* fetchPages() {
+            yield 'page 1';
+            throw new Error('throttled');
+        }, () => 'partial');
+        expect(await collectAsync(paged() as unknown as AsyncIterable<string>)).toEqual(['page 1', 'partial']);
+
+        const lines = catcher(function* readLines() {
+            yield 'line 1';
+            throw new PageError('eof');
+        }, PageError, () => undefined);
+        expect(collect(lines() as unknown as Iterable<string>)).toEqual(['line 1']);
+    });
+
+    it('wraps generator methods under @CatchAll', () => {
+        @CatchAll(() => 'class fallback')
+        class Export {
+            *lines() {
+                yield 'header';
+                throw new Error('disk full');
+            }
+        }
+        expect(collect(new Export().lines())).toEqual(['header', 'class fallback']);
+    });
+
+    it('leaves arrays and other iterables untouched', () => {
+        const list = [1, 2];
+        const wrapped = defaultCatcher(() => list, () => []);
+        expect(wrapped()).toBe(list);
+    });
+});
@@ -0,0 +1,198 @@
+import { CatchAll, Catcher, Finally, Measure, OnSuccess, setMeasureSink, type Measurement } from "../src";
+
+class DBError extends Error { }
+
+const log: string[] = [];
+
+const xrmResolve = (value: unknown): any => ({
+    then(ok: (v: unknown) => void) { ok(value); return this; },
+    catch() { return this; },
+});
+const thenableResolve = (value: unknown): PromiseLike<any> => ({ then: (ok) => ok?.(value) as any });
+
+class AccountService {
+    prefix = 'acc';
+
+    @OnSuccess((value, fnName, self: AccountService, id) => log.push(`${fnName}(${id}) → ${value} [${self.prefix}]`))
+    load(id: string): string {
+        if (!id) throw new Error('missing id');
+        return `${this.prefix}:${id}`;
+    }
+
+    @OnSuccess((value, fnName) => log.push(`${fnName} → ${value}`))
+    async loadAsync(id: string): Promise<string> {
+        if (!id) throw new Error('missing id');
+        return `async:${id}`;
+    }
+
+    @OnSuccess((value) => log.push(`xrm → ${value}`))
+    loadXrm(id: string): PromiseLike<string> {
+        return xrmResolve(`xrm:${id}`);
+    }
+
+    @OnSuccess((value) => log.push(`thenable → ${value}`))
+    loadThenable(id: string): PromiseLike<string> {
+        return thenableResolve(`thenable:${id}`);
+    }
+
+    @Finally((fnName, _self, fail) => log.push(`finally ${fnName}(${fail})`))
+    save(fail: boolean): string {
+        if (fail) throw new DBError('save failed');
+        return 'saved';
+    }
+
+    @Finally(async (fnName) => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        log.push(`cleaned ${fnName}`);
+    })
+    async saveAsync(fail: boolean): Promise<string> {
+        if (fail) throw new DBError('save failed');
+        return 'saved';
+    }
+}
+
+describe('@OnSuccess', () => {
+    beforeEach(() => { log.length = 0; });
+
+    it('runs after sync returns with the value, name, this and arguments', () => {
+        expect(new AccountService().load('42')).toBe('acc:42');
+        expect(log).toEqual(['load(42) → acc:42 [acc]']);
+    });
+
+    it('skips errors', async () => {
+        const service = new AccountService();
+        expect(() => service.load('')).toThrow('missing id');
+        await expect(service.loadAsync('')).rejects.toThrow('missing id');
+        expect(log).toEqual([]);
+    });
+
+    it('waits for Promise, Xrm PromiseLike and thenable results', async () => {
+        const service = new AccountService();
+        const pending = service.loadAsync('1');
+        expect(log).toEqual([]);
+
+        await expect(pending).resolves.toBe('async:1');
+        await expect(service.loadXrm('2')).resolves.toBe('xrm:2');
+        await expect(service.loadThenable('3')).resolves.toBe('thenable:3');
+        expect(log).toEqual(['loadAsync → async:1', 'xrm → xrm:2', 'thenable → thenable:3']);
+    });
+});
+
+describe('@Finally', () => {
+    beforeEach(() => { log.length = 0; });
+
+    it('runs whatever the sync outcome', () => {
+        const service = new AccountService();
+        expect(service.save(false)).toBe('saved');
+        expect(() => service.save(true)).toThrow(DBError);
+        expect(log).toEqual(['finally save(false)', 'finally save(true)']);
+    });
+
+    it('awaits async hooks before settling', async () => {
+        const service = new AccountService();
+        await expect(service.saveAsync(false)).resolves.toBe('saved');
+        expect(log).toEqual(['cleaned saveAsync']);
+
+        await expect(service.saveAsync(true)).rejects.toBeInstanceOf(DBError);
+        expect(log).toEqual(['cleaned saveAsync', 'cleaned saveAsync']);
+    });
+
+    it('replaces the outcome when the hook throws', () => {
+        class Broken {
+            @Finally(() => { throw new Error('cleanup failed'); })
+            run() { return 'ok'; }
+        }
+        expect(() => new Broken().run()).toThrow('cleanup failed');
+    });
+});
+
+describe('@Measure', () => {
+    afterEach(() => setMeasureSink(undefined));
+
+    it('reports sync and async calls to its sink', async () => {
+        const measurements: Measurement[] = [];
+        class Timed {
+            @Measure((m) => measurements.push(m))
+            compute(fail: boolean) {
+                if (fail) throw new DBError('boom');
+                return 1;
+            }
+
+            @Measure((m) => measurements.push(m))
+            async wait() {
+                await new Promise(resolve => setTimeout(resolve, 20));
+            }
+        }
+
+        const timed = new Timed();
+        timed.compute(false);
+        expect(() => timed.compute(true)).toThrow(DBError);
+        await timed.wait();
+
+        expect(measurements.map(({ fnName, className, ok, kind }) => ({ fnName, className, ok, kind }))).toEqual([
+            { fnName: 'compute', className: 'Timed', ok: true, kind: 'sync' },
+            { fnName: 'compute', className: 'Timed', ok: false, kind: 'sync' },
+            { fnName: 'wait', className: 'Timed', ok: true, kind: 'async' },
+        ]);
+        expect(measurements[1].error).toBeInstanceOf(DBError);
+        expect(measurements[2].durationMs).toBeGreaterThanOrEqual(15);
+    });
+
+    it('uses the global sink and ignores sink errors', () => {
+        const names: string[] = [];
+        setMeasureSink((m) => {
+            names.push(m.fnName);
+            throw new Error('sink down');
+        });
+        class Timed {
+            @Measure()
+            run() { return 'ok'; }
+        }
+
+        expect(new Timed().run()).toBe('ok');
+        expect(names).toEqual(['run']);
+    });
+});
+
+describe('ordering with catchers', () => {
+    beforeEach(() => { log.length = 0; });
+
+    it('sees recovered values when placed above a catcher, and only raw values below', async () => {
+        class Repo {
+            @OnSuccess((value) => log.push(`outer: ${value}`))
+            @Catcher(DBError, () => 'fallback')
+            @OnSuccess((value) => log.push(`inner: ${value}`))
+            @Finally(() => log.push('inner finally'))
+            async query(fail: boolean) {
+                if (fail) throw new DBError('down');
+                return 'rows';
+            }
+        }
+
+        const repo = new Repo();
+        await expect(repo.query(false)).resolves.toBe('rows');
+        await expect(repo.query(true)).resolves.toBe('fallback');
+        expect(log).toEqual(['inner finally', 'inner: rows', 'outer: rows', 'inner finally', 'outer: fallback']);
+    });
+
+    it('keeps the @CatchAll opt-out of a wrapped catcher', () => {
+        @CatchAll(() => 'class handler')
+        class Service {
+            @Finally(() => log.push('finally'))
+            @Catcher(TypeError, () => 'own handler')
+            run(): string {
+                throw new DBError('not a TypeError');
+            }
+
+            @Finally(() => log.push('finally plain'))
+            plain(): string {
+                throw new DBError('caught by the class');
+            }
+        }
+
+        const service = new Service();
+        expect(() => service.run()).toThrow(DBError);
+        expect(service.plain()).toBe('class handler');
+        expect(log).toEqual(['finally', 'finally plain']);
+    });
+});
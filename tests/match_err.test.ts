@@ -0,0 +1,77 @@
+import { Ok, Err, Result, defineError } from "../src";
+
+class NotFound extends defineError('NotFound')<{ id: string }> { }
+class Timeout extends defineError('Timeout')<{ ms: number }> { }
+class Forbidden extends defineError('Forbidden') { }
+class DBError extends Error { }
+class NamedError extends Error { override readonly name = 'NamedError' as const; }
+
+type Errors = NotFound | Timeout | Forbidden;
+
+const load = (kind: 'ok' | 'notFound' | 'timeout' | 'forbidden'): Result<string, Errors> => {
+    switch (kind) {
+        case 'ok': return Ok('user');
+        case 'notFound': return Err(new NotFound({ id: '1' }));
+        case 'timeout': return Err(new Timeout({ ms: 100 }));
+        case 'forbidden': return Err(new Forbidden());
+    }
+};
+
+describe("catchTag and matchErr on Result", () => {
+
+    it('Should recover from a tag and narrow the error union', () => {
+        const recovered = load('timeout').catchTag('Timeout', (e) => `retried after ${e.ms}`);
+        expect(recovered.unwrap()).toBe('retried after 100');
+
+        const kept: Result<string, NotFound | Forbidden> = load('notFound').catchTag('Timeout', () => 'retry');
+        expect(kept.unwrapErr()).toBeInstanceOf(NotFound);
+        expect(load('ok').catchTag('Timeout', () => 'retry').unwrap()).toBe('user');
+    });
+
+    it('Should recover by constructor for errors without a tag', () => {
+        const res: Result<number, DBError | RangeError> = Err(new DBError('down'));
+        const recovered = res.catchTag(DBError, () => 0);
+        expect(recovered.unwrap()).toBe(0);
+        expect(Err<number, RangeError>(new RangeError('r')).catchTag(DBError, () => 0).isErr()).toBe(true);
+
+        // errors without a discriminant stay in the union, as a RangeError can still be there
+        // @ts-expect-error the error type is not narrowed to never
+        const narrowed: Result<number, never> = Err<number, DBError | RangeError>(new RangeError('r')).catchTag(DBError, () => 0);
+        expect(narrowed.isErr()).toBe(true);
+    });
+
+    it('Should narrow by the discriminant of a tagged error class', () => {
+        const recovered: Result<string, Timeout | Forbidden> = load('notFound').catchTag(NotFound, (e) => `missing ${e.id}`);
+        expect(recovered.unwrap()).toBe('missing 1');
+
+        // @ts-expect-error NotFound is removed, but Timeout and Forbidden are kept
+        const none: Result<string, never> = load('timeout').catchTag(NotFound, () => '');
+        expect(none.isErr()).toBe(true);
+    });
+
+    it('Should exhaustively match every error kind', () => {
+        const handle = (res: Result<string, Errors>) => res.matchErr({
+            NotFound: (e) => `missing ${e.id}`,
+            Timeout: (e) => `timeout ${e.ms}`,
+            Forbidden: () => 'forbidden'
+        });
+        expect(handle(load('ok'))).toBe('user');
+        expect(handle(load('notFound'))).toBe('missing 1');
+        expect(handle(load('timeout'))).toBe('timeout 100');
+        expect(handle(load('forbidden'))).toBe('forbidden');
+
+        // @ts-expect-error a missing case does not compile
+        load('ok').matchErr({ NotFound: () => '', Timeout: () => '' });
+    });
+
+    it('Should match literal names and require a fallback for errors without a discriminant', () => {
+        const res: Result<number, NotFound | NamedError | DBError> = Err(new NamedError('n'));
+        const handle = (r: typeof res) => r.matchErr({
+            NotFound: () => 404,
+            NamedError: () => 1,
+            _: (e) => e instanceof DBError ? 500 : -1
+        });
+        expect(handle(res)).toBe(1);
+        expect(handle(Err(new DBError('d')))).toBe(500);
+    });
+});
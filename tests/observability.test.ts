@@ -0,0 +1,181 @@
+import {
+    Catcher, catcher, createEventScope, onCaught, onRecovered, onResultErr, onRethrown,
+    ResultTry, ResultTrySync, setArgsRedactor, type CatchEvent
+} from "../src";
+
+class DBError extends Error { }
+
+class AccountService {
+    @Catcher(DBError, () => 'fallback')
+    load(_id: string): string {
+        throw new DBError('db down');
+    }
+
+    @Catcher(DBError, () => 'fallback')
+    async loadAsync(_id: string): Promise<string> {
+        throw new DBError('db down');
+    }
+
+    @Catcher(DBError, () => 'fallback')
+    parse(_raw: string): string {
+        throw new TypeError('bad input');
+    }
+
+    @Catcher(DBError, (e) => { throw new Error(`wrapped: ${e.message}`); })
+    save(): string {
+        throw new DBError('db down');
+    }
+}
+
+describe('observability events', () => {
+    const events: CatchEvent[] = [];
+    const disposers: (() => void)[] = [];
+    const record = (event: CatchEvent) => { events.push(event); };
+
+    beforeEach(() => {
+        events.length = 0;
+        disposers.push(onCaught(record), onRecovered(record), onRethrown(record), onResultErr(record));
+    });
+
+    afterEach(() => {
+        disposers.splice(0).forEach(dispose => dispose());
+        setArgsRedactor(undefined);
+    });
+
+    it('emits caught and recovered events with the call details', () => {
+        expect(new AccountService().load('42')).toBe('fallback');
+
+        expect(events.map(e => e.type)).toEqual(['caught', 'recovered']);
+        const [caught, recovered] = events;
+        expect(caught).toMatchObject({ fnName: 'load', className: 'AccountService', args: ['42'], kind: 'sync' });
+        expect(caught.error).toBeInstanceOf(DBError);
+        expect(caught.durationMs).toBeGreaterThanOrEqual(0);
+        expect(recovered.value).toBe('fallback');
+    });
+
+    it('marks rejected promises as async', async () => {
+        await expect(new AccountService().loadAsync('42')).resolves.toBe('fallback');
+
+        expect(events.map(e => [e.type, e.kind])).toEqual([['caught', 'async'], ['recovered', 'async']]);
+    });
+
+    it('emits rethrown for unmatched errors and throwing handlers', () => {
+        expect(() => new AccountService().parse('x')).toThrow(TypeError);
+        expect(events.map(e => e.type)).toEqual(['rethrown']);
+        expect(events[0].error).toBeInstanceOf(TypeError);
+
+        events.length = 0;
+        expect(() => new AccountService().save()).toThrow('wrapped: db down');
+        expect(events.map(e => e.type)).toEqual(['caught', 'rethrown']);
+        expect((events[1].error as Error).message).toBe('wrapped: db down');
+    });
+
+    it('reports wrapped functions without a class name', () => {
+        const safe = catcher(function divide(a: number, b: number) {
+            if (b === 0) throw new RangeError('division by zero');
+            return a / b;
+        }, Error, (_err) => 0);
+
+        safe(1, 0);
+
+        expect(events[0]).toMatchObject({ type: 'caught', fnName: 'divide', args: [1, 0], className: undefined });
+    });
+
+    it('emits resultErr from ResultTry and ResultTrySync', async () => {
+        const fetchAccount = async (id: string) => { throw new Error(`missing ${id}`); };
+        const parse = (raw: string) => JSON.parse(raw);
+
+        await ResultTry(fetchAccount, ['a1']);
+        ResultTrySync(parse, ['{']);
+        ResultTrySync(parse, ['{}']);
+
+        expect(events.map(e => [e.type, e.fnName, e.kind])).toEqual([
+            ['resultErr', 'fetchAccount', 'async'],
+            ['resultErr', 'parse', 'sync'],
+        ]);
+        expect(events[0].args).toEqual(['a1']);
+    });
+
+    it('emits resultErr for timeouts', async () => {
+        const slow = () => new Promise<void>(() => { });
+
+        await ResultTry(slow, [], undefined, { timeoutMs: 5 });
+
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ type: 'resultErr', fnName: 'slow', kind: 'async' });
+    });
+
+    it('ignores the late failure of a call abandoned after a timeout', async () => {
+        const slow = (signal: AbortSignal) => new Promise<void>((_resolve, reject) =>
+            signal.addEventListener('abort', () => setTimeout(() => reject(new Error('aborted late')), 5)));
+        const mapError = jest.fn((e: unknown) => e);
+
+        await ResultTry(slow, (signal) => [signal], mapError, { timeoutMs: 5 });
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        expect(events.map(e => `${e.fnName}:${(e.error as Error).name}`)).toEqual(['slow:TimeoutError']);
+        expect(mapError).not.toHaveBeenCalled();
+    });
+
+    it('redacts the arguments attached to events', () => {
+        const seen: string[] = [];
+        setArgsRedactor((args, event) => {
+            seen.push(event.type);
+            return args.map(() => '[redacted]');
+        });
+
+        new AccountService().load('secret');
+
+        expect(events.map(e => e.args)).toEqual([['[redacted]'], ['[redacted]']]);
+        expect(seen).toEqual(['caught', 'recovered']);
+    });
+
+    it('drops the arguments when the redactor throws', () => {
+        setArgsRedactor(() => { throw new Error('redactor boom'); });
+
+        expect(new AccountService().load('secret')).toBe('fallback');
+        expect(events.map(e => [e.type, e.args])).toEqual([['caught', []], ['recovered', []]]);
+    });
+
+    it('ignores errors thrown by filters', () => {
+        disposers.push(onCaught(record, () => { throw new Error('filter boom'); }));
+
+        expect(new AccountService().load('42')).toBe('fallback');
+        expect(events.map(e => e.type)).toEqual(['caught', 'recovered']);
+    });
+
+    it('ignores errors thrown by listeners', () => {
+        disposers.push(onCaught(() => { throw new Error('listener failure'); }));
+
+        expect(new AccountService().load('42')).toBe('fallback');
+        expect(events.map(e => e.type)).toEqual(['caught', 'recovered']);
+    });
+});
+
+describe('event scopes', () => {
+    it('filters events and removes every listener on dispose', () => {
+        const caught: string[] = [];
+        const scope = createEventScope(e => e.fnName === 'load');
+        scope.onCaught(e => caught.push(e.fnName));
+
+        const service = new AccountService();
+        service.load('1');
+        expect(() => service.save()).toThrow();
+        expect(caught).toEqual(['load']);
+
+        scope.dispose();
+        service.load('2');
+        expect(caught).toEqual(['load']);
+    });
+
+    it('unsubscribes a single listener', () => {
+        const caught: string[] = [];
+        const off = onCaught(e => caught.push(e.fnName));
+
+        new AccountService().load('1');
+        off();
+        new AccountService().load('2');
+
+        expect(caught).toEqual(['load']);
+    });
+});
@@ -233,8 +233,8 @@ describe('OneOfVariant Additional Methods Tests', () => {
     });
 
     it('should correctly serialize to JSON using toJSON method', () => {
-        expect(numberVariant.toJSON()).toEqual({ type: 'NumberType', value: 100 });
-        expect(stringVariant.toJSON()).toEqual({ type: 'StringType', value: 'Test' });
+        expect(numberVariant.toJSON()).toEqual({ $bak: 'oneof', type: 'NumberType', value: 100 });
+        expect(stringVariant.toJSON()).toEqual({ $bak: 'oneof', type: 'StringType', value: 'Test' });
     });
 
     it('should correctly deserialize from JSON using fromJSON method', () => {
@@ -4,11 +4,11 @@ type ObjType = { value: { nested: typeof None } };
 let createObj = (value: any): ObjType => ({ value: { nested: value } });
 
 describe("Parsing operations on Option", () => {
-    it('Ensures that a JSON.stringfy on a object with None Option will return null', () => {
-        expect(JSON.stringify(createObj(None))).toBe('{"value":{"nested":null}}');
+    it('Ensures that a JSON.stringfy on a object with None Option will return a tagged None', () => {
+        expect(JSON.stringify(createObj(None))).toBe('{"value":{"nested":{"$bak":"option","type":"none"}}}');
     });
 
-    it('Ensures that a JSON.stringfy on a object with Some Option will return the original value', () => {
-        expect(JSON.stringify(createObj(Option(1)))).toBe('{"value":{"nested":1}}');
+    it('Ensures that a JSON.stringfy on a object with Some Option will return a tagged original value', () => {
+        expect(JSON.stringify(createObj(Option(1)))).toBe('{"value":{"nested":{"$bak":"option","type":"some","value":1}}}');
     });
 });
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { Ok, Err, Result } from "../src";
+
+class WrappedError extends Error {
+    constructor(public readonly inner: string) {
+        super(`wrapped: ${inner}`);
+    }
+}
+
+const parse = (txt: string): Result<number, string> =>
+    isNaN(Number(txt)) ? Err(`not a number: ${txt}`) : Ok(Number(txt));
+
+describe("Result combinators", () => {
+
+    it('Should return a proper Err when mapping an Err', () => {
+        const mapped = Err<number, string>('boom').map(x => x * 2);
+        expect(mapped.isErr()).toBe(true);
+        expect(mapped.unwrapErr()).toBe('boom');
+        expect(mapped.unwrapOr(0)).toBe(0);
+    });
+
+    it('Should transform only the error with mapErr', () => {
+        const err = parse('abc').mapErr(e => new WrappedError(e));
+        const ok = parse('2').mapErr(e => new WrappedError(e));
+        expect(err.unwrapErr()).toBeInstanceOf(WrappedError);
+        expect(err.unwrapErr().inner).toBe('not a number: abc');
+        expect(ok.unwrap()).toBe(2);
+    });
+
+    it('Should chain with and/or', () => {
+        expect(parse('1').and(parse('2')).unwrap()).toBe(2);
+        expect(parse('x').and(parse('2')).unwrapErr()).toBe('not a number: x');
+        expect(parse('1').or(Ok(5)).unwrap()).toBe(1);
+        expect(parse('x').or(Ok(5)).unwrap()).toBe(5);
+    });
+
+    it('Should recover from errors with orElse and orElseAsync', async () => {
+        const recovered = parse('x').orElse(() => Ok<number, never>(0));
+        expect(recovered.unwrap()).toBe(0);
+        const untouched = parse('3').orElse(() => Ok<number, never>(0));
+        expect(untouched.unwrap()).toBe(3);
+
+        const asyncRecovered = await parse('x').orElseAsync(async e => Err(e.length));
+        expect(asyncRecovered.unwrapErr()).toBe('not a number: x'.length);
+    });
+
+    it('Should inspect without changing the Result', () => {
+        const onOk = jest.fn();
+        const onErr = jest.fn();
+        const ok = parse('4').inspect(onOk).inspectErr(onErr);
+        const err = parse('y').inspect(onOk).inspectErr(onErr);
+        expect(onOk).toHaveBeenCalledWith(4);
+        expect(onErr).toHaveBeenCalledWith('not a number: y');
+        expect(ok.unwrap()).toBe(4);
+        expect(err.isErr()).toBe(true);
+    });
+
+    it('Should map both sides into a plain value with mapOrElse', () => {
+        const summarize = (r: Result<number, string>) => r.mapOrElse(e => `E:${e}`, v => `V:${v}`);
+        expect(summarize(parse('1'))).toBe('V:1');
+        expect(summarize(parse('z'))).toBe('E:not a number: z');
+    });
+
+    it('Should unwrap with a custom message using expect/expectErr', () => {
+        expect(parse('7').expect('should be a number')).toBe(7);
+        expect(() => parse('q').expect('should be a number')).toThrow('should be a number');
+        try {
+            parse('q').expect('should be a number');
+        } catch (e) {
+            expect((e as { cause: unknown }).cause).toBe('not a number: q');
+        }
+        expect(parse('q').expectErr('should fail')).toBe('not a number: q');
+        expect(() => parse('7').expectErr('should fail')).toThrow('should fail');
+        expect(() => parse('7').unwrapErr()).toThrow();
+    });
+
+    it('Should zip two Results', () => {
+        expect(parse('1').zip(parse('2')).unwrap()).toEqual([1, 2]);
+        expect(parse('1').zip(parse('b')).unwrapErr()).toBe('not a number: b');
+        expect(parse('a').zip(parse('2')).unwrapErr()).toBe('not a number: a');
+    });
+
+    it('Should flatten a nested Result', () => {
+        const nested: Result<Result<number, string>, string> = Ok(Ok(1));
+        expect(nested.flatten().unwrap()).toBe(1);
+        const innerErr: Result<Result<number, string>, string> = Ok(Err('inner'));
+        expect(innerErr.flatten().unwrapErr()).toBe('inner');
+        const outerErr: Result<Result<number, string>, string> = Err('outer');
+        expect(outerErr.flatten().unwrapErr()).toBe('outer');
+    });
+});
@@ -0,0 +1,41 @@
+import { ResultTrySync, Result } from "../src";
+
+describe("ResultTrySync and Result.fromThrowable", () => {
+
+    it('Should return the Result directly instead of a Promise', () => {
+        const res = ResultTrySync((a: number, b: number) => a + b, [1, 2]);
+        expect(res).not.toBeInstanceOf(Promise);
+        expect(res.unwrap()).toBe(3);
+    });
+
+    it('Should map thrown errors with errorCase', () => {
+        expect(ResultTrySync(JSON.parse, ['{']).unwrapErr()).toBeInstanceOf(SyntaxError);
+
+        const fixed = ResultTrySync(JSON.parse, ['{'], 'invalid');
+        expect(fixed.unwrapErr()).toBe('invalid');
+
+        const mapped = ResultTrySync(JSON.parse, ['{'], (_e, text) => `invalid: ${text}`);
+        expect(mapped.unwrapErr()).toBe('invalid: {');
+    });
+
+    it('Should reject async functions at compile time and throw at runtime', () => {
+        // @ts-expect-error async functions are not supported
+        expect(() => ResultTrySync(async () => 1)).toThrow(TypeError);
+        // @ts-expect-error functions returning a Promise are not supported either
+        Result.fromThrowable(() => Promise.resolve(1));
+    });
+
+    it('Should turn a throwing function into one returning a Result', () => {
+        const safeParse = Result.fromThrowable(JSON.parse, (e) => `bad json: ${(e as Error).name}`);
+        expect(safeParse('{"a":1}').unwrap()).toEqual({ a: 1 });
+        expect(safeParse('{').unwrapErr()).toBe('bad json: SyntaxError');
+
+        const divide = Result.fromThrowable((a: number, b: number) => {
+            if (b === 0) throw new RangeError('division by zero');
+            return a / b;
+        });
+        const res: Result<number, Error> = divide(1, 0);
+        expect(res.unwrapErr()).toBeInstanceOf(RangeError);
+        expect(divide(6, 3).unwrap()).toBe(2);
+    });
+});
@@ -0,0 +1,75 @@
+import { ResultTry, RetryError, BAKUtilsRetryDelay } from "../src";
+
+class NetworkError extends Error { }
+
+const flaky = (failures: number, error: () => unknown = () => new NetworkError('offline')) => {
+    let calls = 0;
+    return jest.fn(async (value: string) => {
+        calls++;
+        if (calls <= failures) throw error();
+        return `${value} after ${calls}`;
+    });
+};
+
+describe("ResultTry.retry", () => {
+
+    it('Should return Ok as soon as an attempt succeeds', async () => {
+        const fn = flaky(2);
+        const res = await ResultTry.retry(fn, ['ok'], { attempts: 3, baseMs: 0 });
+        expect(res.unwrap()).toBe('ok after 3');
+        expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('Should return a RetryError with every attempt error after the last attempt', async () => {
+        const fn = flaky(5);
+        const onRetry = jest.fn();
+        const res = await ResultTry.retry(fn, ['x'], { attempts: 3, baseMs: 0, onRetry });
+        const err = res.unwrapErr();
+        expect(err).toBeInstanceOf(RetryError);
+        expect(err.attempts).toBe(3);
+        expect(err.errors).toHaveLength(3);
+        expect(err.errors.every(e => e instanceof NetworkError)).toBe(true);
+        expect(err.cause).toBe(err.errors[2]);
+        expect(onRetry).toHaveBeenCalledTimes(2);
+        expect(onRetry).toHaveBeenCalledWith(expect.any(NetworkError), 1, 0);
+    });
+
+    it('Should stop retrying errors rejected by retryOn', async () => {
+        const byClass = flaky(5, () => new TypeError('bug'));
+        const res = await ResultTry.retry(byClass, ['x'], { attempts: 3, baseMs: 0, retryOn: [NetworkError] });
+        expect(res.unwrapErr().attempts).toBe(1);
+        expect(byClass).toHaveBeenCalledTimes(1);
+
+        const byPredicate = flaky(5);
+        const res2 = await ResultTry.retry(byPredicate, ['x'], { attempts: 5, baseMs: 0, retryOn: (_e, attempt) => attempt < 2 });
+        expect(res2.unwrapErr().attempts).toBe(2);
+    });
+
+    it('Should retry Xrm PromiseLike and thenable rejections', async () => {
+        let calls = 0;
+        const xrm = (): any => {
+            const fail = ++calls < 2;
+            const o: any = {
+                then(ok: any, bad: any) { fail ? bad?.({ errorCode: 1, message: 'err' }) : ok?.(7); return o; },
+                catch(cb: any) { return o.then(undefined, cb); }
+            };
+            return o;
+        };
+        const res = await ResultTry.retry(xrm, [], { baseMs: 0, retryOn: [NetworkError] });
+        expect(res.unwrap()).toBe(7);
+        expect(calls).toBe(2);
+    });
+
+    it('Should compute delays from the backoff, the upper bound and the jitter', () => {
+        expect([1, 2, 3, 4].map(n => BAKUtilsRetryDelay(n, { baseMs: 100 }))).toEqual([100, 200, 400, 800]);
+        expect([1, 2, 3].map(n => BAKUtilsRetryDelay(n, { baseMs: 100, backoff: 'linear' }))).toEqual([100, 200, 300]);
+        expect([1, 2].map(n => BAKUtilsRetryDelay(n, { baseMs: 50, backoff: 'fixed' }))).toEqual([50, 50]);
+        expect(BAKUtilsRetryDelay(10, { baseMs: 100, maxMs: 1000 })).toBe(1000);
+        expect(BAKUtilsRetryDelay(3, { backoff: n => n * 7 })).toBe(21);
+        for (let i = 0; i < 20; i++) {
+            const delay = BAKUtilsRetryDelay(1, { baseMs: 100, jitter: 0.5 });
+            expect(delay).toBeGreaterThanOrEqual(50);
+            expect(delay).toBeLessThanOrEqual(100);
+        }
+    });
+});
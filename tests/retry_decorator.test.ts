@@ -0,0 +1,85 @@
+import { Retry, Catcher, RetryError } from "../src";
+
+class HttpError extends Error { }
+
+class Api {
+    calls = 0;
+    failures = 0;
+
+    @Retry({ attempts: 3, baseMs: 0 })
+    async get(value: string): Promise<string> {
+        this.calls++;
+        if (this.calls <= this.failures) throw new HttpError(`attempt ${this.calls}`);
+        return `${value} after ${this.calls}`;
+    }
+
+    @Retry({ attempts: 4 })
+    parse(text: string): unknown {
+        this.calls++;
+        if (this.calls <= this.failures) throw new SyntaxError('bad');
+        return JSON.parse(text);
+    }
+
+    @Catcher(HttpError, (e) => `caught ${e.message}`)
+    @Retry({ attempts: 2, baseMs: 0, retryOn: [HttpError] })
+    async guarded(): Promise<string> {
+        this.calls++;
+        throw this.calls === 1 ? new HttpError(`attempt ${this.calls}`) : new HttpError('last');
+    }
+
+    @Retry({ attempts: 2, baseMs: 0, onGiveUp: (e) => `gave up after ${e.attempts}` })
+    xrm(): any {
+        this.calls++;
+        return {
+            then() { return this; },
+            catch(onErr: (e: unknown) => void) { onErr({ errorCode: 1, message: 'xrm' }); return this; },
+        };
+    }
+}
+
+describe('@Retry', () => {
+
+    it('Should retry async methods keeping this bound', async () => {
+        const api = new Api();
+        api.failures = 2;
+        await expect(api.get('ok')).resolves.toBe('ok after 3');
+        expect(api.calls).toBe(3);
+    });
+
+    it('Should re-reject the last error once the attempts are used up', async () => {
+        const api = new Api();
+        api.failures = 5;
+        await expect(api.get('x')).rejects.toThrow('attempt 3');
+    });
+
+    it('Should retry sync methods right away', () => {
+        const api = new Api();
+        api.failures = 3;
+        expect(api.parse('[1]')).toEqual([1]);
+        expect(api.calls).toBe(4);
+        api.calls = 0;
+        api.failures = 10;
+        expect(() => api.parse('[1]')).toThrow(SyntaxError);
+    });
+
+    it('Should stack with @Catcher, which only runs after the last attempt', async () => {
+        const api = new Api();
+        await expect(api.guarded()).resolves.toBe('caught last');
+        expect(api.calls).toBe(2);
+    });
+
+    it('Should send a RetryError to onGiveUp for Xrm PromiseLike returns', async () => {
+        const onGiveUp = jest.fn(() => 'fallback');
+        class Svc {
+            @Retry({ attempts: 2, baseMs: 0, onGiveUp })
+            async run(id: number) { throw new HttpError(`fail ${id}`); }
+        }
+        const svc = new Svc();
+        await expect(svc.run(7)).resolves.toBe('fallback');
+        expect(onGiveUp).toHaveBeenCalledWith(expect.any(RetryError), 'run', svc, 7);
+
+        const api = new Api();
+        await expect(api.xrm()).resolves.toBe('gave up after 2');
+        expect(api.calls).toBe(2);
+    });
+});
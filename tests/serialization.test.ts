@@ -0,0 +1,108 @@
+import { Ok, Err, Result, Some, None, Option, createOneOf, OneOf, OneOfVariant, taggedReviver, createReviver, serializeError, defineError } from "../src";
+
+class NotFound extends Error {
+    constructor(public readonly id: string, cause?: unknown) {
+        super(`${id} not found`);
+        this.name = 'NotFound';
+        if (cause !== undefined) (this as { cause?: unknown }).cause = cause;
+    }
+}
+
+const roundTrip = <T>(value: unknown, reviver = taggedReviver): T => JSON.parse(JSON.stringify(value), reviver);
+
+describe("Tagged serialization of Result", () => {
+
+    it('Should serialize Ok and Err without throwing', () => {
+        expect(JSON.stringify(Ok(1))).toBe('{"$bak":"result","type":"ok","value":1}');
+        expect(JSON.parse(JSON.stringify(Err('bad')))).toEqual({ $bak: 'result', type: 'error', error: 'bad' });
+    });
+
+    it('Should keep the error name, message, stack, cause and custom fields', () => {
+        const original = new NotFound('42', new TypeError('inner'));
+        const json = serializeError(original);
+        expect(json).toMatchObject({ $bak: 'error', name: 'NotFound', message: '42 not found', id: '42', stack: original.stack });
+        expect(json.cause).toMatchObject({ $bak: 'error', name: 'TypeError', message: 'inner' });
+
+        const revived = roundTrip<Result<number, NotFound>>(Err(original), createReviver({ errors: [NotFound] }));
+        const error = revived.unwrapErr();
+        expect(error).toBeInstanceOf(NotFound);
+        expect(error.message).toBe('42 not found');
+        expect(error.id).toBe('42');
+        expect(error.stack).toBe(original.stack);
+        expect((error as { cause?: unknown }).cause).toBeInstanceOf(TypeError);
+    });
+
+    it('Should leave out causes and fields pointing back to an error already serialized', () => {
+        const outer = new NotFound('1');
+        const inner = new NotFound('2', outer);
+        (outer as { cause?: unknown }).cause = inner;
+        (inner as NotFound & { self?: Error }).self = inner;
+
+        const json = serializeError(outer);
+        expect(json.cause).toMatchObject({ $bak: 'error', id: '2' });
+        expect(json.cause).not.toHaveProperty('cause');
+        expect(json.cause).not.toHaveProperty('self');
+        expect(() => JSON.stringify(Err(outer))).not.toThrow();
+    });
+
+    it('Should match defineError classes by their tag', () => {
+        const Timeout = defineError('Timeout')<{ ms: number }>;
+        const revived = roundTrip<Result<number, InstanceType<typeof Timeout>>>(Err(new Timeout({ ms: 500 })), createReviver({ errors: [Timeout] }));
+        const error = revived.unwrapErr();
+        expect(error).toBeInstanceOf(Timeout);
+        expect(error._tag).toBe('Timeout');
+        expect(error.ms).toBe(500);
+    });
+
+    it('Should rebuild unknown error classes as plain Errors', () => {
+        const error = roundTrip<Result<number, Error>>(Err(new NotFound('1'))).unwrapErr();
+        expect(error).toBeInstanceOf(Error);
+        expect(error.name).toBe('NotFound');
+        expect((error as NotFound).id).toBe('1');
+    });
+
+    it('Should rebuild from a parsed object with fromJSON', () => {
+        const ok = Result.fromJSON<Option<number>, string>(JSON.parse(JSON.stringify(Ok(Some(2)))));
+        expect(ok.unwrap().unwrap()).toBe(2);
+        const err = Result.fromJSON<number, NotFound>(JSON.parse(JSON.stringify(Err(new NotFound('3')))), { errors: [NotFound] });
+        expect(err.unwrapErr()).toBeInstanceOf(NotFound);
+        expect(() => Result.fromJSON({ type: 'ok' } as any)).toThrow(TypeError);
+    });
+});
+
+describe("Tagged serialization of Option and OneOf", () => {
+
+    it('Should round-trip Some and None', () => {
+        expect(roundTrip<Option<number>>(Some(1)).unwrap()).toBe(1);
+        expect(roundTrip<Option<number>>(None).isNone()).toBe(true);
+        expect(Option.fromJSON<number>({ $bak: 'option', type: 'some', value: 5 }).unwrap()).toBe(5);
+        expect(() => Option.fromJSON({} as any)).toThrow(TypeError);
+    });
+
+    it('Should revive Some values lost by JSON as None', () => {
+        expect(roundTrip<Option<number>>(Some(NaN)).isNone()).toBe(true);
+        const revived = roundTrip<{ ratio: Option<number>, total: number }>({ ratio: Some(Infinity), total: 3 });
+        expect(revived.ratio).toBe(None);
+        expect(revived.total).toBe(3);
+        expect(Option.fromJSON({ $bak: 'option', type: 'some' } as any)).toBe(None);
+    });
+
+    it('Should rebuild nested values inside plain objects', () => {
+        type Shape = { Circle: number, Square: number };
+        const payload = {
+            user: Some({ name: 'John' }),
+            results: [Ok(1), Err('e')],
+            shape: createOneOf<Shape, 'Circle'>('Circle', 2)
+        };
+        const revived = roundTrip<{ user: Option<{ name: string }>, results: Result<number, string>[], shape: OneOf<Shape> }>(payload);
+        expect(revived.user.unwrap().name).toBe('John');
+        expect(revived.results[0].unwrap()).toBe(1);
+        expect(revived.results[1].unwrapErr()).toBe('e');
+        expect(revived.shape).toBeInstanceOf(OneOfVariant);
+        expect(revived.shape.is('Circle')).toBe(true);
+    });
+
+    it('Should leave untagged objects untouched', () => {
+        expect(JSON.parse('{"type":"some","value":1}', taggedReviver)).toEqual({ type: 'some', value: 1 });
+    });
+});
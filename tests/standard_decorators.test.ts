@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import * as lib from '../src';
+
+const fixturePath = path.join(__dirname, 'config', 'decorated_sample.ts');
+const source = fs.readFileSync(fixturePath, 'utf8');
+
+/** Compiles the fixture with legacy or standard decorators and evaluates it against the library sources. */
+function loadFixture(experimentalDecorators: boolean): typeof import('./config/decorated_sample') {
+    const { outputText } = ts.transpileModule(source, {
+        compilerOptions: { experimentalDecorators, target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.CommonJS },
+        fileName: fixturePath
+    });
+    const module = { exports: {} as any };
+    new Function('require', 'module', 'exports', outputText)(
+        (id: string) => id === '../../src' ? lib : require(id),
+        module,
+        module.exports
+    );
+    return module.exports;
+}
+
+describe.each([
+    ['legacy', true],
+    ['standard', false],
+])('Catcher decorators with %s decorators', (_mode, experimentalDecorators) => {
+    const { DecoratedSample, ValidationError, caught } = loadFixture(experimentalDecorators);
+
+    beforeEach(() => caught.length = 0);
+
+    it('Should wrap methods, filtering by error class', async () => {
+        const sample = new DecoratedSample();
+        expect(sample.validate(1)).toBe('valid 1');
+        expect(sample.validate(-1)).toBe('validate caught negative');
+        expect(() => sample.validate(0)).toThrow(TypeError);
+        expect(new ValidationError()).toBeInstanceOf(Error);
+        await expect(sample.load(true)).resolves.toBe('load recovered offline');
+    });
+
+    it('Should wrap getters and setters', () => {
+        const sample = new DecoratedSample();
+        sample.next = 500;
+        expect(sample.value).toBe(0);
+        sample.next = -5;
+        expect(sample.value).toBe(-1);
+        expect(caught).toEqual(['next: too big', 'value: corrupted']);
+    });
+
+    it('Should wrap accessor fields', () => {
+        const sample = new DecoratedSample();
+        expect(sample.label).toBe('initial');
+        sample.label = 'renamed';
+        expect(sample.label).toBe('renamed');
+    });
+
+    it('Should wrap static methods', () => {
+        expect(DecoratedSample.create(false)).toBe('created');
+        expect(DecoratedSample.create(true)).toBe('create caught string error');
+    });
+});
+
+describe('Standard decorators type-check', () => {
+
+    it('Should compile the fixture without errors using standard decorators', () => {
+        const program = ts.createProgram([fixturePath], {
+            experimentalDecorators: false,
+            target: ts.ScriptTarget.ES2022,
+            module: ts.ModuleKind.ES2015,
+            moduleResolution: ts.ModuleResolutionKind.Node10,
+            strictNullChecks: true,
+            skipLibCheck: true,
+            noEmit: true,
+            types: []
+        });
+        const diagnostics = ts.getPreEmitDiagnostics(program).map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+        expect(diagnostics).toEqual([]);
+    });
+});
@@ -0,0 +1,63 @@
+import { defineError, matchError, isTagged, Catcher, catcher, ResultTry, Err, Result } from "../src";
+
+class NotFound extends defineError('NotFound')<{ id: string }> { }
+const Timeout = defineError('Timeout')<{ ms: number }>;
+type Timeout = InstanceType<typeof Timeout>;
+class Forbidden extends defineError('Forbidden') { }
+
+describe("defineError", () => {
+
+    it('Should create an Error subclass with a literal tag and typed fields', () => {
+        const err = new NotFound({ id: '42' });
+        const tag: 'NotFound' = err._tag;
+        expect(tag).toBe('NotFound');
+        expect(err.id).toBe('42');
+        expect(err.name).toBe('NotFound');
+        expect(err.message).toBe('NotFound');
+        expect(err).toBeInstanceOf(Error);
+        expect(err).toBeInstanceOf(NotFound);
+        expect(err).not.toBeInstanceOf(Forbidden);
+        expect(NotFound._tag).toBe('NotFound');
+    });
+
+    it('Should support a custom message, a cause and errors without fields', () => {
+        const cause = new TypeError('inner');
+        const timeout = new Timeout({ ms: 100, message: 'Too slow', cause });
+        expect(timeout.message).toBe('Too slow');
+        expect(timeout.cause).toBe(cause);
+        expect(timeout.ms).toBe(100);
+        expect(Object.keys(timeout)).not.toContain('cause');
+        expect(new Forbidden()._tag).toBe('Forbidden');
+    });
+
+    it('Should exhaustively match an error union by tag', () => {
+        const toStatus = (err: NotFound | Timeout | Forbidden) => matchError(err, {
+            NotFound: (e) => `404 ${e.id}`,
+            Timeout: (e) => `504 ${e.ms}`,
+            Forbidden: () => '403'
+        });
+        expect(toStatus(new NotFound({ id: '1' }))).toBe('404 1');
+        expect(toStatus(new Timeout({ ms: 5 }))).toBe('504 5');
+        expect(toStatus(new Forbidden())).toBe('403');
+        // @ts-expect-error a missing case does not compile
+        expect(() => matchError(new Forbidden() as NotFound | Forbidden, { NotFound: () => 1 })).toThrow();
+        expect(isTagged(new Forbidden(), 'Forbidden')).toBe(true);
+        expect(isTagged(new Error('x'))).toBe(false);
+    });
+
+    it('Should plug into catcher, Catcher and ResultTry', async () => {
+        const find = (id: string): string => { throw new NotFound({ id }); };
+        const safeFind = catcher(find, NotFound, (e) => `missing ${e.id}`);
+        expect(safeFind('7')).toBe('missing 7');
+
+        class Repo {
+            @Catcher(NotFound, (e) => `decorated ${e.id}`)
+            find(id: string): string { throw new NotFound({ id }); }
+        }
+        expect(new Repo().find('8')).toBe('decorated 8');
+
+        const res: Result<string, NotFound> = await ResultTry(find, ['9'], (e) => e as NotFound);
+        expect(res.unwrapErr()._tag).toBe('NotFound');
+        expect(Err(new Timeout({ ms: 1 })).unwrapErr()).toBeInstanceOf(Timeout);
+    });
+});
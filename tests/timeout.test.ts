@@ -0,0 +1,67 @@
+import { ResultTry, TimeoutError, AbortError } from "../src";
+
+const after = (ms: number, value: string, signal?: AbortSignal) => new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => resolve(value), ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    });
+});
+
+describe("ResultTry timeouts and cancellation", () => {
+
+    afterEach(() => jest.useRealTimers());
+
+    it('Should return Ok when the call settles before the deadline', async () => {
+        const res = await ResultTry(after, [5, 'done'], undefined, { timeoutMs: 1000 });
+        expect(res.unwrap()).toBe('done');
+    });
+
+    it('Should return Err(TimeoutError) once the deadline passes and abort the signal given to fn', async () => {
+        jest.useFakeTimers();
+        let received: AbortSignal | undefined;
+        const pending = ResultTry(after, (signal) => {
+            received = signal;
+            return [10_000, 'late', signal];
+        }, () => new Error('mapped'), { timeoutMs: 100 });
+        await jest.advanceTimersByTimeAsync(100);
+        const err = (await pending).unwrapErr();
+        expect(err).toBeInstanceOf(TimeoutError);
+        expect((err as TimeoutError).ms).toBe(100);
+        expect(received?.aborted).toBe(true);
+        expect(received?.reason).toBe(err);
+        expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('Should return Err(AbortError) when the external signal fires', async () => {
+        const controller = new AbortController();
+        const pending = ResultTry(after, (signal) => [10_000, 'never', signal], undefined, { signal: controller.signal });
+        controller.abort('user cancelled');
+        const err = (await pending).unwrapErr();
+        expect(err).toBeInstanceOf(AbortError);
+        expect((err as AbortError).cause).toBe('user cancelled');
+    });
+
+    it('Should not call fn when the signal is already aborted', async () => {
+        const fn = jest.fn(() => 1);
+        const controller = new AbortController();
+        controller.abort();
+        const res = await ResultTry(fn, [], undefined, { signal: controller.signal });
+        expect(res.unwrapErr()).toBeInstanceOf(AbortError);
+        expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('Should still map regular errors with errorCase and clean up the timer and listener', async () => {
+        const clear = jest.spyOn(global, 'clearTimeout');
+        const controller = new AbortController();
+        const remove = jest.spyOn(controller.signal, 'removeEventListener');
+        const res = await ResultTry(() => { throw new Error('boom'); }, [], (e) => `mapped: ${(e as Error).message}`, {
+            timeoutMs: 1000,
+            signal: controller.signal
+        });
+        expect(res.unwrapErr()).toBe('mapped: boom');
+        expect(clear).toHaveBeenCalled();
+        expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+        clear.mockRestore();
+    });
+});
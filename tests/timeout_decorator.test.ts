@@ -0,0 +1,73 @@
+import { Timeout, withTimeout, TimeoutError } from "../src";
+
+const after = (ms: number, value: string) => new Promise<string>(resolve => setTimeout(() => resolve(value), ms));
+
+class Client {
+    constructor(public readonly timeoutMs: number) { }
+
+    @Timeout((self: Client) => self.timeoutMs)
+    retrieve(ms: number): Promise<string> {
+        return after(ms, 'retrieved');
+    }
+
+    @Timeout(100, (e, fnName, ctx: Client, id: string) => `${fnName}(${id}) gave up after ${e.ms}ms on ${ctx.timeoutMs}`)
+    search(id: string, ms: number): Promise<string> {
+        return after(ms, id);
+    }
+
+    @Timeout(100)
+    xrm(): any {
+        return { then() { return this; }, catch() { return this; } };
+    }
+
+    @Timeout(1)
+    sync(): string {
+        return 'sync';
+    }
+}
+
+describe('@Timeout and withTimeout', () => {
+
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('Should use a deadline computed from this', async () => {
+        const fast = new Client(1000).retrieve(500);
+        await jest.advanceTimersByTimeAsync(500);
+        await expect(fast).resolves.toBe('retrieved');
+
+        const slow = new Client(100).retrieve(500);
+        const assertion = expect(slow).rejects.toBeInstanceOf(TimeoutError);
+        await jest.advanceTimersByTimeAsync(100);
+        await assertion;
+        await jest.advanceTimersByTimeAsync(400);
+        expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('Should send the TimeoutError to the handler with the usual arguments', async () => {
+        const pending = new Client(7).search('42', 1000);
+        await jest.advanceTimersByTimeAsync(100);
+        await expect(pending).resolves.toBe('search(42) gave up after 100ms on 7');
+    });
+
+    it('Should race Xrm PromiseLike returns and leave sync methods alone', async () => {
+        const client = new Client(0);
+        const pending = client.xrm();
+        const assertion = expect(pending).rejects.toBeInstanceOf(TimeoutError);
+        await jest.advanceTimersByTimeAsync(100);
+        await assertion;
+        expect(client.sync()).toBe('sync');
+    });
+
+    it('Should wrap plain functions', async () => {
+        const retrieve = withTimeout(after, 50, () => 'fallback');
+        const pending: Promise<string> = retrieve(1000, 'late');
+        await jest.advanceTimersByTimeAsync(50);
+        await expect(pending).resolves.toBe('fallback');
+
+        const rejecting = withTimeout(after, 50);
+        const assertion = expect(rejecting(1000, 'late')).rejects.toThrow('Timed out after 50ms');
+        await jest.advanceTimersByTimeAsync(50);
+        await assertion;
+    });
+});
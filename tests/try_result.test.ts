@@ -0,0 +1,70 @@
+import { TryResult, toResultFn, Result, errorCases, onError, defineError } from "../src";
+
+class DBError extends defineError('DBError')<{ id: string }> { }
+
+class Repo {
+    prefix = 'row';
+
+    @TryResult()
+    parse(text: string) {
+        return JSON.parse(text);
+    }
+
+    @TryResult((e, id: string) => new DBError({ id, cause: e }))
+    async load(id: string) {
+        if (id === 'missing') throw new Error('not found');
+        return `${this.prefix}:${id}`;
+    }
+}
+
+describe('@TryResult and toResultFn', () => {
+
+    it('Should make sync methods return a Result', () => {
+        const repo = new Repo();
+        const ok = repo.parse('{"a":1}') as unknown as Result<{ a: number }, Error>;
+        expect(ok.unwrap()).toEqual({ a: 1 });
+        const err = repo.parse('{') as unknown as Result<unknown, Error>;
+        expect(err.unwrapErr()).toBeInstanceOf(SyntaxError);
+    });
+
+    it('Should make async methods resolve to a Result, keeping this and mapping errors', async () => {
+        const repo = new Repo();
+        const ok = await (repo.load('1') as unknown as Promise<Result<string, DBError>>);
+        expect(ok.unwrap()).toBe('row:1');
+        const err = (await (repo.load('missing') as unknown as Promise<Result<string, DBError>>)).unwrapErr();
+        expect(err).toBeInstanceOf(DBError);
+        expect(err.id).toBe('missing');
+        expect((err.cause as Error).message).toBe('not found');
+    });
+
+    it('Should type the wrapped function return as a Result', async () => {
+        const parse = toResultFn(JSON.parse);
+        const parsed: Result<any, Error> = parse('[1]');
+        expect(parsed.unwrap()).toEqual([1]);
+
+        const divide = toResultFn((a: number, b: number) => {
+            if (b === 0) throw new RangeError('division by zero');
+            return a / b;
+        }, errorCases([onError(RangeError, (e) => e.message)]));
+        const res: Result<number, string> = divide(1, 0);
+        expect(res.unwrapErr()).toBe('division by zero');
+
+        const fetchValue = toResultFn(async (fail: boolean) => {
+            if (fail) throw new Error('offline');
+            return 42;
+        }, 'unavailable');
+        const ok: Result<number, string> = await fetchValue(false);
+        expect(ok.unwrap()).toBe(42);
+        expect((await fetchValue(true)).unwrapErr()).toBe('unavailable');
+    });
+
+    it('Should convert Xrm PromiseLike returns', async () => {
+        const xrm = (fail: boolean): any => ({
+            then(onOk: (v: string) => void) { if (!fail) onOk('xrm ok'); return this; },
+            catch(onErr: (e: unknown) => void) { if (fail) onErr({ errorCode: 1, message: 'xrm failed' }); return this; },
+        });
+        const wrapped = toResultFn(xrm);
+        expect((await wrapped(false)).unwrap()).toBe('xrm ok');
+        expect((await wrapped(true)).unwrapErr()).toEqual({ errorCode: 1, message: 'xrm failed' });
+    });
+});
@@ -0,0 +1,57 @@
+import { Validation, FieldError, Ok, Err, Result, NonEmptyArray } from "../src";
+
+const minLength = (n: number) => (s: string): Result<string, string> => s.length >= n ? Ok(s) : Err(`min length ${n}`);
+const hasDigit = (s: string): Result<string, string> => /\d/.test(s) ? Ok(s) : Err('needs a digit');
+const positive = (n: number): Validation<number, string> => n > 0 ? Validation.ok(n) : Validation.fail('must be positive');
+
+describe("Validation", () => {
+
+    it('Should run every check on a value and accumulate the errors', () => {
+        expect(Validation.validateAll('abc', [minLength(8), hasDigit]).unwrapErr()).toEqual(['min length 8', 'needs a digit']);
+        expect(Validation.validateAll('abcdefg1', [minLength(8), hasDigit]).unwrap()).toBe('abcdefg1');
+    });
+
+    it('Should combine independent validations without short-circuiting', () => {
+        const combined = Validation.all([positive(-1), Validation.ok<string, string>('a'), positive(0)]);
+        expect(combined.unwrapErr()).toEqual(['must be positive', 'must be positive']);
+
+        const [n, s]: [number, string] = Validation.all([positive(1), Validation.ok<string, string>('a')]).unwrap();
+        expect([n, s]).toEqual([1, 'a']);
+    });
+
+    it('Should convert to and from Result', () => {
+        const fromErr = Validation.fromResult(Err<number, string>('bad'));
+        const errors: NonEmptyArray<string> = fromErr.unwrapErr();
+        expect(errors).toEqual(['bad']);
+        expect(Validation.fromResult(Ok<number, string>(1)).unwrap()).toBe(1);
+
+        const merged = Validation.toResult(Validation.fail('a', 'b'), errs => errs.join(', '));
+        expect(merged.unwrapErr()).toBe('a, b');
+        expect(Validation.toResult(Validation.fail('a')).unwrapErr()).toEqual(['a']);
+    });
+
+    it('Should join field validations recording the path of each error', () => {
+        const validateUser = (input: { name: string, age: number, address: { zip: string }, tags: string[] }) =>
+            Validation.fields({
+                name: Validation.validateAll(input.name, [minLength(2)]),
+                age: positive(input.age),
+                address: Validation.fields({ zip: Validation.validateAll(input.address.zip, [minLength(5), hasDigit]) }),
+                tags: Validation.fields(input.tags.map(tag => Validation.validateAll(tag, [minLength(1)])))
+            });
+
+        const invalid = validateUser({ name: 'J', age: 30, address: { zip: 'ab' }, tags: ['ok', ''] });
+        const errors = invalid.unwrapErr();
+        expect(errors.every(e => e instanceof FieldError)).toBe(true);
+        expect(errors.map(e => e.toString())).toEqual([
+            'name: min length 2',
+            'address.zip: min length 5',
+            'address.zip: needs a digit',
+            'tags.1: min length 1'
+        ]);
+        expect(errors[3].path).toEqual(['tags', 1]);
+
+        const valid = validateUser({ name: 'John', age: 30, address: { zip: '12345' }, tags: ['a'] });
+        const user: { name: string, age: number, address: { zip: string }, tags: string[] } = valid.unwrap();
+        expect(user).toEqual({ name: 'John', age: 30, address: { zip: '12345' }, tags: ['a'] });
+    });
+});